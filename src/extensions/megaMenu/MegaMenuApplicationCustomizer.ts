@@ -1,3 +1,5 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
 import { override } from '@microsoft/decorators';
 import { Log } from '@microsoft/sp-core-library';
 import {
@@ -5,11 +7,20 @@ import {
   PlaceholderContent,
   PlaceholderName
 } from '@microsoft/sp-application-base';
-import { Dialog } from '@microsoft/sp-dialog';
+import { SPPermission } from '@microsoft/sp-page-context';
 
 import * as strings from 'MegaMenuApplicationCustomizerStrings';
-import { MegaMenuService } from './services/MegaMenuService';
-import { IMegaMenuProps } from './components/MegaMenu';
+import { MegaMenuService, MenuData, MenuTheme } from './services/MegaMenuService';
+import { parseSourceOrder } from './services/MenuDataSources';
+import { getFallbackMenuData } from './services/FallbackMenuData';
+import { AudienceService } from './services/AudienceService';
+import { UrlPolicy, parseUrlPolicyList } from './services/UrlPolicy';
+import { MenuCacheStorageType, createMenuCacheStorage } from './services/MenuCacheStorage';
+import { MenuTelemetry } from './services/MenuTelemetry';
+import { MenuTelemetrySinkType, createMenuTelemetrySink } from './services/MenuTelemetrySinks';
+import { MegaMenu, IMegaMenuProps, IMegaMenuPreview } from './components/MegaMenu';
+import { MenuEditor, IMenuEditorProps } from './components/MenuEditor';
+import { getSiteTheme, resolveMenuTheme, getThemeCss } from './components/MenuTheme';
 
 const LOG_SOURCE: string = 'MegaMenuApplicationCustomizer';
 
@@ -17,6 +28,35 @@ export interface IMegaMenuApplicationCustomizerProperties {
   testMessage: string;
   documentLibrary?: string;
   fileName?: string;
+  lenientValidation?: boolean;
+  /** Comma-separated order of menu sources: library, list, inline, static */
+  menuSources?: string | string[];
+  menuListTitle?: string;
+  inlineMenuData?: string | MenuData;
+  /** Comma-separated URL schemes menu links may use (default: http, https, mailto, tel) */
+  allowedUrlSchemes?: string | string[];
+  /** Comma-separated hosts absolute menu links may point to, e.g. "*.contoso.com"; any host when empty */
+  allowedUrlHosts?: string | string[];
+  /** Minutes the cached menu is used before it is revalidated in the background (default: 5) */
+  cacheDuration?: number;
+  /** Minutes an outdated cached menu may still be shown while it is revalidated (default: 10080) */
+  maxStaleness?: number;
+  /** Where cached menus are kept: localStorage (default), sessionStorage or indexedDB */
+  cacheStorage?: MenuCacheStorageType;
+  /** Colors, font and dimensions, as an object or a JSON string; overrides the site theme and the menu file */
+  theme?: MenuTheme | string;
+  /** Where menu usage events are sent: list, http or console; nothing is recorded when omitted */
+  telemetrySink?: MenuTelemetrySinkType;
+  /** Title of the list the list sink adds events to */
+  telemetryListTitle?: string;
+  /** Site of the telemetry list (default: the current site) */
+  telemetryWebUrl?: string;
+  /** URL the http sink posts events to */
+  telemetryEndpoint?: string;
+  /** Share of browser sessions that are recorded, from 0 to 1 (default: 1) */
+  telemetrySampleRate?: number;
+  /** Turns telemetry off, e.g. for a site where a tenant-wide configuration enables it */
+  disableTelemetry?: boolean;
 }
 
 export default class MegaMenuApplicationCustomizer
@@ -24,35 +64,174 @@ export default class MegaMenuApplicationCustomizer
 
   private _topPlaceholder: PlaceholderContent | undefined;
   private _megaMenuService: MegaMenuService;
+  private _urlPolicy: UrlPolicy;
+  private _telemetry: MenuTelemetry | undefined;
+  /** The site the service was created for; navigating to another site recreates it */
+  private _webUrl: string;
+  /** The menu last rendered, shown again right away after navigating */
+  private _menuData: MenuData | null = null;
+  /** Incremented for every load, so results of loads for an earlier page are ignored */
+  private _loadId: number = 0;
+  private _isDisposed: boolean = false;
+  /** Whether the current user may edit the menu file of this site */
+  private _canEditMenu: boolean = false;
+  /** Holds the menu editor panel while it is open */
+  private _editorElement: HTMLDivElement | null = null;
+  /** The draft of the open editor, shown instead of the loaded menu */
+  private _editorDraft: MenuData | null = null;
+  /** Set while a menu file is previewed with ?megaMenuPreview=<file name> */
+  private _preview: IMegaMenuPreview | null = null;
+  /** The previewed menu, shown instead of the loaded menu */
+  private _previewMenuData: MenuData | null = null;
 
   @override
   public onInit(): Promise<void> {
     Log.info(LOG_SOURCE, `Initialized ${strings.Title}`);
 
+    this._createService();
+    this._createTelemetry();
+
+    // Modern pages navigate without reloading, keeping the customizer alive; placeholders may be
+    // removed and re-created along the way
+    this.context.application.navigatedEvent.add(this, this._onNavigated);
+    this.context.placeholderProvider.changedEvent.add(this, this._onPlaceholdersChanged);
+
+    // Call render method for generating the HTML elements
+    this._renderPlaceHolders();
+
+    return Promise.resolve();
+  }
+
+  @override
+  protected onDispose(): void {
+    this._isDisposed = true;
+    this._loadId++;
+
+    this.context.application.navigatedEvent.remove(this, this._onNavigated);
+    this.context.placeholderProvider.changedEvent.remove(this, this._onPlaceholdersChanged);
+
+    this._closeEditor();
+    if (this._topPlaceholder) {
+      this._topPlaceholder.dispose();
+      this._topPlaceholder = undefined;
+    }
+    if (this._telemetry) {
+      this._telemetry.dispose();
+      this._telemetry = undefined;
+    }
+
+    const style = document.getElementById('mega-menu-styles');
+    if (style && style.parentNode) {
+      style.parentNode.removeChild(style);
+    }
+    // The Fabric icon styles are shared with the rest of the page and stay loaded
+
+    Log.info(LOG_SOURCE, `Disposed ${strings.Title}`);
+  }
+
+  private _createService(): void {
+    this._webUrl = this.context.pageContext.web.absoluteUrl;
+
+    this._urlPolicy = new UrlPolicy(this._webUrl, {
+      allowedSchemes: parseUrlPolicyList(this.properties.allowedUrlSchemes),
+      allowedHosts: parseUrlPolicyList(this.properties.allowedUrlHosts)
+    });
+
+    const sourceOrder = parseSourceOrder(this.properties.menuSources);
+
+    // Site owners may edit a menu that is read from the document library
+    this._canEditMenu = sourceOrder.indexOf('library') !== -1 &&
+      this.context.pageContext.web.permissions.hasPermission(SPPermission.manageWeb);
+
     // Initialize the mega menu service
     this._megaMenuService = new MegaMenuService(
       this.context.spHttpClient,
-      this.context.pageContext.web.absoluteUrl,
+      this._webUrl,
       this.properties.documentLibrary || 'Shared Documents',
-      this.properties.fileName || 'menuData.ts'
+      this.properties.fileName || 'menuData.ts',
+      {
+        lenientValidation: this.properties.lenientValidation,
+        sourceOrder,
+        menuListTitle: this.properties.menuListTitle,
+        inlineMenuData: this.properties.inlineMenuData,
+        urlPolicy: this._urlPolicy,
+        cacheDuration: this.properties.cacheDuration,
+        maxStaleness: this.properties.maxStaleness,
+        cacheStorage: createMenuCacheStorage(this.properties.cacheStorage),
+        audienceService: new AudienceService(
+          this.context.spHttpClient,
+          this._webUrl,
+          this.context.pageContext.user.loginName
+        )
+      }
     );
+  }
 
-    // Call render method for generating the HTML elements
+  private _createTelemetry(): void {
+    const sink = createMenuTelemetrySink(this.properties.telemetrySink, {
+      spHttpClient: this.context.spHttpClient,
+      httpClient: this.context.httpClient,
+      webUrl: this.properties.telemetryWebUrl || this.context.pageContext.web.absoluteUrl,
+      listTitle: this.properties.telemetryListTitle,
+      endpoint: this.properties.telemetryEndpoint
+    });
+    if (!sink) {
+      return;
+    }
+
+    const telemetry = new MenuTelemetry(sink, {
+      sampleRate: this.properties.telemetrySampleRate,
+      disabled: this.properties.disableTelemetry
+    });
+    if (telemetry.isEnabled()) {
+      this._telemetry = telemetry;
+    }
+  }
+
+  private _onNavigated = (): void => {
+    if (this._isDisposed) {
+      return;
+    }
+    Log.info(LOG_SOURCE, `Navigated to ${window.location.href}`);
+
+    if (this.context.pageContext.web.absoluteUrl !== this._webUrl) {
+      // Another site has its own menu file, URL policy and audiences
+      this._closeEditor();
+      this._createService();
+      this._menuData = null;
+    }
+
+    // A re-created placeholder renders the menu itself; one that survived the navigation is re-rendered
+    const placeholder = this._topPlaceholder;
     this._renderPlaceHolders();
+    if (this._topPlaceholder === placeholder) {
+      this._renderMegaMenu();
+    }
+  }
 
-    return Promise.resolve();
+  private _onPlaceholdersChanged = (): void => {
+    if (!this._isDisposed) {
+      this._renderPlaceHolders();
+    }
   }
 
   private _renderPlaceHolders(): void {
     console.log('Available placeholders: ',
       this.context.placeholderProvider.placeholderNames.map(name => PlaceholderName[name]).join(', '));
 
+    // A placeholder removed from the page during navigation is replaced
+    if (this._topPlaceholder && !document.body.contains(this._topPlaceholder.domElement)) {
+      console.log('The top placeholder was removed from the page, re-creating it.');
+      this._topPlaceholder.dispose();
+      this._topPlaceholder = undefined;
+    }
+
     // Handling the top placeholder
     if (!this._topPlaceholder) {
       this._topPlaceholder =
         this.context.placeholderProvider.tryCreateContent(
           PlaceholderName.Top,
-          { onDispose: this._onDispose }
+          { onDispose: this._onDispose.bind(this) }
         );
 
       // The extension should not assume that the expected placeholder is available.
@@ -72,256 +251,220 @@ export default class MegaMenuApplicationCustomizer
       return;
     }
 
-    // Create the mega menu container
-    const megaMenuContainer = document.createElement('div');
-    megaMenuContainer.id = 'mega-menu-container';
-    
-    // Add CSS styles
-    this._addStyles();
-    
-    // Load menu data and render
-    this._megaMenuService.getMenuData()
-      .then(menuData => {
-        this._renderMegaMenuHTML(megaMenuContainer, menuData);
-        this._topPlaceholder!.domElement.appendChild(megaMenuContainer);
-      })
-      .catch(error => {
-        console.error('Error loading menu data:', error);
-        // Render fallback menu
-        this._renderFallbackMenu(megaMenuContainer);
-        this._topPlaceholder!.domElement.appendChild(megaMenuContainer);
-      });
+    const loadId = ++this._loadId;
+    const isCurrentLoad = () => loadId === this._loadId && !this._isDisposed;
+    this._preview = null;
+    this._previewMenuData = null;
+
+    // Show the loading state until the menu data arrives; after navigating, the previous menu
+    // is shown instead, with the new page highlighted
+    this._renderMegaMenuComponent(this._menuData, !this._menuData);
+
+    const previewFileName = this._getPreviewFileName();
+    if (previewFileName) {
+      this._loadPreview(previewFileName, isCurrentLoad);
+    } else {
+      this._loadMenuData(isCurrentLoad);
+    }
   }
 
-  private _renderMegaMenuHTML(container: HTMLElement, menuData: any): void {
-    const navigation = menuData.navigation || [];
-    
-    container.innerHTML = `
-      <nav class="mega-menu">
-        <div class="mega-menu-container">
-          <div class="mega-menu-header">
-            <!-- Desktop Navigation -->
-            <div class="desktop-nav">
-              ${navigation.map((item: any) => `
-                <div class="nav-item" data-menu="${item.title}">
-                  ${item.megaMenu ? `
-                    <button class="nav-button">
-                      <span>${item.title}</span>
-                      <span class="chevron">▼</span>
-                    </button>
-                  ` : `
-                    <a href="${item.href}" class="nav-link">
-                      <span>${item.title}</span>
-                    </a>
-                  `}
-                </div>
-              `).join('')}
-            </div>
-            
-            <!-- Mobile Menu Button -->
-            <div class="mobile-menu-button">
-              <button class="hamburger" aria-label="Main menu">
-                ☰
-              </button>
-            </div>
-          </div>
-          
-          <!-- Desktop Mega Menu Dropdowns -->
-          ${navigation.map((item: any) => {
-            if (!item.megaMenu) return '';
-            return `
-              <div class="mega-menu-dropdown" data-menu="${item.title}" style="display: none;">
-                <div class="dropdown-content">
-                  <div class="columns-grid">
-                    ${item.megaMenu.columns.map((column: any) => `
-                      <div class="column">
-                        <h3 class="column-title">${column.title}</h3>
-                        <ul class="column-list">
-                          ${column.items.map((menuItem: any) => `
-                            <li>
-                              <a href="${menuItem.href}" class="column-link">
-                                ${menuItem.title}
-                              </a>
-                            </li>
-                          `).join('')}
-                        </ul>
-                      </div>
-                    `).join('')}
-                  </div>
-                </div>
-              </div>
-            `;
-          }).join('')}
-        </div>
-        
-        <!-- Mobile Menu -->
-        <div class="mobile-menu" style="display: none;">
-          <div class="mobile-menu-content">
-            ${navigation.map((item: any) => `
-              <div>
-                ${item.megaMenu ? `
-                  <button class="mobile-nav-button" data-submenu="${item.title}">
-                    <span>${item.title}</span>
-                    <span class="mobile-chevron">▼</span>
-                  </button>
-                  <div class="mobile-submenu" data-submenu="${item.title}" style="display: none;">
-                    ${item.megaMenu.columns.map((column: any) => `
-                      <div class="mobile-column">
-                        <h4 class="mobile-column-title">${column.title}</h4>
-                        ${column.items.map((menuItem: any) => `
-                          <a href="${menuItem.href}" class="mobile-column-link">
-                            ${menuItem.title}
-                          </a>
-                        `).join('')}
-                      </div>
-                    `).join('')}
-                  </div>
-                ` : `
-                  <a href="${item.href}" class="mobile-nav-link">
-                    ${item.title}
-                  </a>
-                `}
-              </div>
-            `).join('')}
-          </div>
-        </div>
-      </nav>
-    `;
+  /** ?megaMenuPreview=<file name> previews another menu file of the library, such as a draft */
+  private _getPreviewFileName(): string | null {
+    const match = /[?&]megaMenuPreview=([^&#]*)/i.exec(window.location.search);
+    if (!match) {
+      return null;
+    }
 
-    // Add event listeners
-    this._addEventListeners(container);
+    let fileName: string;
+    try {
+      fileName = decodeURIComponent(match[1].replace(/\+/g, ' ')).trim();
+    } catch (error) {
+      fileName = '';
+    }
+    // Only plain file names, so the parameter cannot point to other folders or alter the REST URL
+    if (!/^[\w\-. ]+$/.test(fileName)) {
+      Log.warn(LOG_SOURCE, `Ignoring invalid megaMenuPreview file name "${match[1]}"`);
+      return null;
+    }
+    return fileName;
   }
 
-  private _renderFallbackMenu(container: HTMLElement): void {
-    const fallbackData = {
-      navigation: [
-        {
-          title: "My Sites",
-          href: "",
-          megaMenu: {
-            columns: [
-              {
-                title: "",
-                items: [
-                  { title: "Academic Affairs Staff Workspace", href: "/sites/academicaffairsworkspace" },
-                  { title: "Forms Central", href: "/sites/formscentral" },
-                  { title: "Student Resources", href: "/sites/studentresources" }
-                ]
-              }
-            ]
-          }
-        },
-        {
-          title: "Forms Central",
-          href: "/sites/formscentral"
-        },
-        {
-          title: "Library",
-          href: "https://library.law.fordham.edu/"
-        },
-        {
-          title: "IT Support Portal",
-          href: "https://fordhamlaw.freshservice.com/support/home"
+  private _loadPreview(fileName: string, isCurrentLoad: () => boolean): void {
+    const exitUrl = window.location.href.replace(/([?&])megaMenuPreview=[^&#]*&?/i, '$1').replace(/[?&](#|$)/, '$1');
+
+    this._megaMenuService.canEditLibrary()
+      .catch(error => {
+        console.warn('Failed to check permissions for the menu preview:', error);
+        return false;
+      })
+      .then(canEdit => {
+        if (!isCurrentLoad()) {
+          return;
+        }
+        // Previews are for menu authors; everyone else gets the live menu
+        if (!canEdit) {
+          Log.warn(LOG_SOURCE, 'Ignoring megaMenuPreview: the current user cannot edit the menu library');
+          this._loadMenuData(isCurrentLoad);
+          return;
         }
-      ]
-    };
 
-    this._renderMegaMenuHTML(container, fallbackData);
+        Log.info(LOG_SOURCE, `Previewing ${fileName}`);
+        return this._megaMenuService.getPreviewMenuData(fileName)
+          .then(preview => {
+            if (isCurrentLoad()) {
+              this._preview = { fileName, warnings: preview.warnings, exitUrl };
+              this._previewMenuData = preview.data;
+              this._renderMegaMenuComponent(this._menuData, false);
+            }
+          })
+          .catch(error => {
+            if (!isCurrentLoad()) {
+              return;
+            }
+            console.error(`Error loading ${fileName} for preview:`, error);
+            this._preview = { fileName, warnings: [], error: error.message, exitUrl };
+            this._loadMenuData(isCurrentLoad);
+          });
+      });
   }
 
-  private _addEventListeners(container: HTMLElement): void {
-    let activeMenu: string | null = null;
-    let timeoutRef: number | null = null;
-
-    // Desktop menu hover events
-    const navItems = container.querySelectorAll('.nav-item');
-    navItems.forEach(item => {
-      const menuName = item.getAttribute('data-menu');
-      const dropdown = container.querySelector(`.mega-menu-dropdown[data-menu="${menuName}"]`) as HTMLElement;
-      
-      if (dropdown) {
-        item.addEventListener('mouseenter', () => {
-          if (timeoutRef) {
-            clearTimeout(timeoutRef);
-          }
-          
-          // Hide all dropdowns
-          const allDropdowns = container.querySelectorAll('.mega-menu-dropdown');
-          allDropdowns.forEach(dd => (dd as HTMLElement).style.display = 'none');
-          
-          // Show current dropdown
-          dropdown.style.display = 'block';
-          activeMenu = menuName;
-        });
-
-        item.addEventListener('mouseleave', () => {
-          timeoutRef = window.setTimeout(() => {
-            dropdown.style.display = 'none';
-            activeMenu = null;
-          }, 150);
-        });
-
-        dropdown.addEventListener('mouseenter', () => {
-          if (timeoutRef) {
-            clearTimeout(timeoutRef);
+  private _loadMenuData(isCurrentLoad: () => boolean): void {
+    // A cached menu is shown right away; if the source has changed since, the menu is updated in place
+    const onUpdate = (menuData: MenuData) => {
+      if (isCurrentLoad()) {
+        Log.info(LOG_SOURCE, 'Menu data changed, updating the menu');
+        this._renderMegaMenuComponent(menuData, false);
+      }
+    };
+
+    // ?megaMenuRefresh=1 shows menu edits right away instead of the cached copy
+    const cacheCleared = /[?&]megaMenuRefresh=(1|true)(&|$)/i.test(window.location.search)
+      ? this._megaMenuService.clearCache()
+      : Promise.resolve();
+
+    cacheCleared
+      .then(() => this._megaMenuService.getMenuData(onUpdate))
+      .then(menuData => {
+        if (!isCurrentLoad()) {
+          return;
+        }
+        const loadInfo = this._megaMenuService.getLoadInfo();
+        if (loadInfo) {
+          Log.info(LOG_SOURCE, `Menu served by the ${loadInfo.source} source${loadInfo.fromCache ? ' (cached)' : ''}`);
+          if (loadInfo.fileVersion) {
+            Log.warn(LOG_SOURCE, `The menu file could not be read; showing its version ${loadInfo.fileVersion} instead`);
           }
-        });
+        }
+        this._renderMegaMenuComponent(menuData, false);
+      })
+      .catch(error => {
+        if (!isCurrentLoad()) {
+          return;
+        }
+        console.error('Error loading menu data:', error);
+        this._renderMegaMenuComponent(getFallbackMenuData(), false);
+      });
+  }
 
-        dropdown.addEventListener('mouseleave', () => {
-          dropdown.style.display = 'none';
-          activeMenu = null;
-        });
-      }
+  private _renderMegaMenuComponent(menuData: MenuData | null, isDomLoading: boolean): void {
+    if (!this._topPlaceholder || !this._topPlaceholder.domElement) {
+      return;
+    }
+
+    if (menuData) {
+      this._menuData = menuData;
+    }
+    // While the editor is open, the menu shows its draft; in preview mode, the previewed file
+    if (this._editorDraft || this._previewMenuData) {
+      menuData = this._editorDraft || this._previewMenuData;
+      isDomLoading = false;
+    }
+
+    // The menu file may bring its own theme
+    this._addStyles(menuData ? menuData.theme : undefined);
+
+    // Rendering into the same placeholder replaces the previous menu rather than adding another
+    const element: React.ReactElement<IMegaMenuProps> = React.createElement(MegaMenu, {
+      menuData,
+      isDomLoading,
+      urlPolicy: this._urlPolicy,
+      cultureName: this.context.pageContext.cultureInfo.currentUICultureName,
+      currentUrl: window.location.href,
+      telemetry: this._preview ? undefined : this._telemetry,
+      preview: this._preview || undefined,
+      onEditMenu: this._canEditMenu && !this._editorElement ? this._openEditor : undefined
     });
 
-    // Mobile menu toggle
-    const hamburger = container.querySelector('.hamburger');
-    const mobileMenu = container.querySelector('.mobile-menu') as HTMLElement;
-    let isMobileMenuOpen = false;
+    ReactDOM.render(element, this._topPlaceholder.domElement);
+  }
 
-    if (hamburger && mobileMenu) {
-      hamburger.addEventListener('click', () => {
-        isMobileMenuOpen = !isMobileMenuOpen;
-        mobileMenu.style.display = isMobileMenuOpen ? 'block' : 'none';
-        hamburger.textContent = isMobileMenuOpen ? '✕' : '☰';
-      });
+  private _openEditor = (): void => {
+    if (this._editorElement) {
+      return;
     }
 
-    // Mobile submenu toggles
-    const mobileNavButtons = container.querySelectorAll('.mobile-nav-button');
-    mobileNavButtons.forEach(button => {
-      button.addEventListener('click', () => {
-        const submenuName = button.getAttribute('data-submenu');
-        const submenu = container.querySelector(`.mobile-submenu[data-submenu="${submenuName}"]`) as HTMLElement;
-        const chevron = button.querySelector('.mobile-chevron') as HTMLElement;
-        
-        if (submenu) {
-          const isOpen = submenu.style.display === 'block';
-          submenu.style.display = isOpen ? 'none' : 'block';
-          chevron.style.transform = isOpen ? 'rotate(0deg)' : 'rotate(180deg)';
+    this._editorElement = document.createElement('div');
+    this._editorElement.id = 'mega-menu-editor';
+    document.body.appendChild(this._editorElement);
+
+    const element: React.ReactElement<IMenuEditorProps> = React.createElement(MenuEditor, {
+      service: this._megaMenuService,
+      cultureName: this.context.pageContext.cultureInfo.currentUICultureName,
+      onPreview: (draft: MenuData) => {
+        this._editorDraft = draft;
+        this._renderMegaMenuComponent(this._menuData, false);
+      },
+      onClose: (saved: boolean) => {
+        this._closeEditor();
+        // A saved menu is reloaded; otherwise the draft is replaced by the menu shown before
+        if (saved) {
+          this._renderMegaMenu();
+        } else {
+          this._renderMegaMenuComponent(this._menuData, !this._menuData);
         }
-      });
+      }
     });
+    ReactDOM.render(element, this._editorElement);
   }
 
-  private _addStyles(): void {
-    if (document.getElementById('mega-menu-styles')) {
-      return; // Styles already added
+  private _closeEditor(): void {
+    this._editorDraft = null;
+    if (!this._editorElement) {
+      return;
+    }
+
+    ReactDOM.unmountComponentAtNode(this._editorElement);
+    if (this._editorElement.parentNode) {
+      this._editorElement.parentNode.removeChild(this._editorElement);
     }
+    this._editorElement = null;
+  }
 
-    const style = document.createElement('style');
-    style.id = 'mega-menu-styles';
+  /** Adds the menu stylesheet, or updates it when the theme changes */
+  private _addStyles(menuTheme?: MenuTheme): void {
+    let style = document.getElementById('mega-menu-styles') as HTMLStyleElement;
+    if (!style) {
+      style = document.createElement('style');
+      style.id = 'mega-menu-styles';
+      document.head.appendChild(style);
+    }
+
+    const themeCss = getThemeCss(resolveMenuTheme(getSiteTheme(), menuTheme, this._getThemeProperty()));
+    const t = themeCss.value;
     style.textContent = `
+      ${themeCss.variables}
+
       .mega-menu {
         position: relative;
-        background-color: #b91c1c;
-        color: white;
+        font-family: ${t('fontFamily')};
+        background-color: ${t('primaryColor')};
+        color: ${t('textOnPrimaryColor')};
         box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
         z-index: 1000;
       }
 
       .mega-menu-container {
-        max-width: 1280px;
+        max-width: ${t('maxWidth')};
         margin: 0 auto;
       }
 
@@ -329,7 +472,7 @@ export default class MegaMenuApplicationCustomizer
         display: flex;
         align-items: center;
         justify-content: space-between;
-        height: 64px;
+        height: ${t('headerHeight')};
         padding: 0 30px;
       }
 
@@ -337,6 +480,9 @@ export default class MegaMenuApplicationCustomizer
         display: none;
         align-items: center;
         gap: 16px;
+        list-style: none;
+        margin: 0;
+        padding: 0;
       }
 
       @media (min-width: 768px) {
@@ -349,6 +495,10 @@ export default class MegaMenuApplicationCustomizer
         position: relative;
       }
 
+      .menu-loading {
+        color: ${t('textOnPrimaryColor')};
+      }
+
       .nav-button, .nav-link {
         display: flex;
         align-items: center;
@@ -356,7 +506,7 @@ export default class MegaMenuApplicationCustomizer
         padding: 8px 12px;
         font-size: 14px;
         font-weight: 500;
-        color: white;
+        color: ${t('textOnPrimaryColor')};
         background: none;
         border: none;
         cursor: pointer;
@@ -367,8 +517,28 @@ export default class MegaMenuApplicationCustomizer
       }
 
       .nav-button:hover, .nav-link:hover {
-        background-color: #991b1b;
-        color: #fecaca;
+        background-color: ${t('primaryDarkColor')};
+        color: ${t('primaryLightColor')};
+      }
+
+      .is-active-section > .nav-button, .is-active-section > .nav-link {
+        background-color: ${t('primaryDarkColor')};
+        box-shadow: inset 0 -2px 0 ${t('textOnPrimaryColor')};
+      }
+
+      .nav-button:focus-visible, .nav-link:focus-visible, .hamburger:focus-visible,
+      .mobile-nav-button:focus-visible, .mobile-nav-link:focus-visible {
+        outline: 2px solid ${t('textOnPrimaryColor')};
+        outline-offset: 2px;
+      }
+
+      .column-link:focus-visible, .featured-cta:focus-visible {
+        outline: 2px solid ${t('linkColor')};
+        outline-offset: 1px;
+      }
+
+      .nav-button[aria-expanded="true"] .chevron {
+        transform: rotate(180deg);
       }
 
       .chevron {
@@ -388,7 +558,7 @@ export default class MegaMenuApplicationCustomizer
 
       .hamburger {
         padding: 8px;
-        color: white;
+        color: ${t('textOnPrimaryColor')};
         background: none;
         border: none;
         cursor: pointer;
@@ -398,25 +568,186 @@ export default class MegaMenuApplicationCustomizer
       }
 
       .hamburger:hover {
-        color: #fecaca;
+        color: ${t('primaryLightColor')};
+      }
+
+      .edit-menu-button {
+        display: none;
+        margin-left: 8px;
+        padding: 6px 10px;
+        font-size: 16px;
+        color: ${t('textOnPrimaryColor')};
+        background: none;
+        border: 1px solid ${t('primaryLightColor')};
+        border-radius: 6px;
+        cursor: pointer;
+      }
+
+      .edit-menu-button:hover {
+        background-color: ${t('primaryDarkColor')};
+      }
+
+      @media (min-width: 768px) {
+        .edit-menu-button {
+          display: block;
+        }
+      }
+
+      .preview-ribbon {
+        padding: 6px 16px;
+        font-size: 13px;
+        color: #323130;
+        background-color: #fff4ce;
+        border-bottom: 1px solid #f2c811;
+      }
+
+      .preview-ribbon-summary {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 12px;
+      }
+
+      .preview-ribbon-summary strong {
+        text-transform: uppercase;
+        letter-spacing: 0.05em;
+      }
+
+      .preview-ribbon-exit {
+        margin-left: auto;
+        color: #323130;
+        font-weight: 600;
+      }
+
+      .preview-ribbon-error {
+        margin-top: 4px;
+        color: #a4262c;
+      }
+
+      .preview-ribbon-warnings {
+        margin: 4px 0 0;
+        padding-left: 20px;
+      }
+
+      .preview-warning {
+        margin-left: 6px;
+        color: #f2c811;
+        cursor: help;
+      }
+
+      .dropdown-content .preview-warning,
+      .column-title .preview-warning {
+        color: #c19c00;
+      }
+
+      .menu-search {
+        position: relative;
+      }
+
+      .desktop-search {
+        display: none;
+        width: 240px;
+      }
+
+      @media (min-width: 768px) {
+        .desktop-search {
+          display: block;
+        }
+      }
+
+      .mobile-search {
+        margin-bottom: 4px;
+      }
+
+      .menu-search-input {
+        box-sizing: border-box;
+        width: 100%;
+        padding: 8px 12px;
+        font-family: inherit;
+        font-size: 14px;
+        color: ${t('textColor')};
+        background-color: ${t('surfaceColor')};
+        border: 1px solid ${t('borderColor')};
+        border-radius: 6px;
+      }
+
+      .menu-search-input:focus {
+        outline: 2px solid ${t('textOnPrimaryColor')};
+        outline-offset: 1px;
+      }
+
+      .menu-search-results {
+        position: absolute;
+        top: 100%;
+        right: 0;
+        z-index: 1001;
+        width: 360px;
+        max-width: 90vw;
+        max-height: 400px;
+        overflow-y: auto;
+        margin: 4px 0 0;
+        padding: 4px;
+        list-style: none;
+        background-color: ${t('surfaceColor')};
+        border: 1px solid ${t('borderColor')};
+        border-radius: 6px;
+        box-shadow: 0 10px 25px rgba(0, 0, 0, 0.15);
+      }
+
+      .mobile-search .menu-search-results {
+        position: static;
+        width: auto;
+        max-width: none;
+      }
+
+      .menu-search-result a {
+        display: block;
+        padding: 8px 12px;
+        font-size: 14px;
+        color: ${t('textColor')};
+        text-decoration: none;
+        border-radius: 4px;
+      }
+
+      .menu-search-result.is-active a {
+        background-color: ${t('primaryLighterColor')};
+        color: ${t('primaryDarkerColor')};
+      }
+
+      .menu-search-result-path {
+        color: ${t('mutedTextColor')};
+      }
+
+      .menu-search-result.is-active .menu-search-result-path {
+        color: inherit;
+      }
+
+      .menu-search-result-title {
+        font-weight: 600;
+      }
+
+      .menu-search-empty {
+        padding: 8px 12px;
+        font-size: 14px;
+        color: ${t('mutedTextColor')};
       }
 
       .mega-menu-dropdown {
         position: absolute;
-        top: 64px;
+        top: ${t('headerHeight')};
         left: 0;
         right: 0;
-        background-color: white;
+        background-color: ${t('surfaceColor')};
         box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1);
-        border-top: 1px solid #e5e7eb;
-        border-bottom: 3px solid #dc2626;
+        border-top: 1px solid ${t('borderColor')};
+        border-bottom: 3px solid ${t('accentColor')};
         z-index: 40;
         max-height: 75vh;
         overflow-y: auto;
       }
 
       .dropdown-content {
-        max-width: 1280px;
+        max-width: ${t('maxWidth')};
         margin: 0 auto;
         padding: 24px 30px;
       }
@@ -436,8 +767,8 @@ export default class MegaMenuApplicationCustomizer
       .column-title {
         font-size: 15px;
         font-weight: 600;
-        color: #b91c1c;
-        border-bottom: 1px solid #fecaca;
+        color: ${t('linkColor')};
+        border-bottom: 1px solid ${t('primaryLightColor')};
         padding-bottom: 6px;
         margin: 0 0 8px 0;
       }
@@ -457,7 +788,7 @@ export default class MegaMenuApplicationCustomizer
 
       .column-link {
         display: block;
-        color: #b91c1c;
+        color: ${t('linkColor')};
         text-decoration: none;
         padding: 3px 6px;
         border-radius: 3px;
@@ -467,13 +798,169 @@ export default class MegaMenuApplicationCustomizer
       }
 
       .column-link:hover {
-        color: #b91c1c;
-        background-color: #fef2f2;
+        color: ${t('linkColor')};
+        background-color: ${t('primaryLighterColor')};
+      }
+
+      .column-link.is-current, .column-link.is-active-trail {
+        background-color: ${t('primaryLighterColor')};
+      }
+
+      .column-link.is-current {
+        font-weight: 600;
+        box-shadow: inset 3px 0 0 ${t('linkColor')};
+      }
+
+      .column-link, .mobile-column-link {
+        display: flex;
+        align-items: flex-start;
+        gap: 8px;
+      }
+
+      .link-icon {
+        flex: none;
+        font-size: 14px;
+        line-height: 1.4;
+      }
+
+      .link-text {
+        display: flex;
+        flex-direction: column;
+        min-width: 0;
+      }
+
+      .link-badge {
+        display: inline-block;
+        margin-left: 6px;
+        padding: 0 6px;
+        border-radius: 9999px;
+        font-size: 10px;
+        font-weight: 600;
+        line-height: 16px;
+        text-transform: uppercase;
+        vertical-align: 1px;
+        color: ${t('textOnPrimaryColor')};
+        background-color: ${t('primaryColor')};
+      }
+
+      .link-badge-deactivated {
+        color: ${t('textColor')};
+        background-color: ${t('borderColor')};
+      }
+
+      .link-description {
+        font-size: 12px;
+        color: ${t('mutedTextColor')};
+      }
+
+      .mobile-menu .link-description {
+        color: ${t('primaryLightColor')};
+      }
+
+      .featured-panel {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-bottom: 8px;
+      }
+
+      .featured-image {
+        width: 100%;
+        max-height: 140px;
+        object-fit: cover;
+        border-radius: 6px;
+      }
+
+      .featured-headline {
+        margin: 0;
+        font-size: 16px;
+        font-weight: 600;
+        color: ${t('textColor')};
+      }
+
+      .featured-description {
+        margin: 0;
+        font-size: 13px;
+        color: ${t('mutedTextColor')};
+      }
+
+      .featured-cta {
+        align-self: flex-start;
+        padding: 6px 14px;
+        border-radius: 6px;
+        font-size: 13px;
+        font-weight: 600;
+        color: ${t('textOnPrimaryColor')};
+        background-color: ${t('primaryColor')};
+        text-decoration: none;
+      }
+
+      .featured-cta:hover {
+        background-color: ${t('primaryDarkColor')};
+      }
+
+      .mobile-column .featured-panel {
+        padding: 0 12px;
+      }
+
+      .mobile-column .featured-headline,
+      .mobile-column .featured-description {
+        color: ${t('textOnPrimaryColor')};
+      }
+
+      .mobile-column .featured-cta {
+        background-color: ${t('primaryDarkColor')};
+      }
+
+      .has-flyout {
+        position: relative;
+      }
+
+      .flyout-trigger {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        cursor: default;
+      }
+
+      a.flyout-trigger {
+        cursor: pointer;
+      }
+
+      .flyout-arrow {
+        font-size: 9px;
+      }
+
+      .flyout {
+        display: none;
+        position: absolute;
+        top: -8px;
+        left: 100%;
+        min-width: 200px;
+        list-style: none;
+        margin: 0;
+        padding: 8px;
+        background-color: ${t('surfaceColor')};
+        border: 1px solid ${t('borderColor')};
+        border-radius: 6px;
+        box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1);
+        z-index: 50;
+      }
+
+      .has-flyout:hover > .flyout,
+      .has-flyout:focus-within > .flyout {
+        display: block;
+      }
+
+      .column:last-child .flyout {
+        left: auto;
+        right: 100%;
       }
 
       .mobile-menu {
-        background-color: #7f1d1d;
-        border-top: 1px solid #991b1b;
+        background-color: ${t('primaryDarkerColor')};
+        border-top: 1px solid ${t('primaryDarkColor')};
       }
 
       @media (min-width: 768px) {
@@ -483,6 +970,7 @@ export default class MegaMenuApplicationCustomizer
       }
 
       .mobile-menu-content {
+        position: relative;
         padding: 8px 8px 12px;
         display: flex;
         flex-direction: column;
@@ -499,7 +987,7 @@ export default class MegaMenuApplicationCustomizer
         padding: 8px 12px;
         font-size: 16px;
         font-weight: 500;
-        color: white;
+        color: ${t('textOnPrimaryColor')};
         background: none;
         border: none;
         cursor: pointer;
@@ -509,8 +997,8 @@ export default class MegaMenuApplicationCustomizer
       }
 
       .mobile-nav-button:hover, .mobile-nav-link:hover {
-        color: #fecaca;
-        background-color: #991b1b;
+        color: ${t('primaryLightColor')};
+        background-color: ${t('primaryDarkColor')};
       }
 
       .mobile-chevron {
@@ -535,7 +1023,7 @@ export default class MegaMenuApplicationCustomizer
       .mobile-column-title {
         font-size: 14px;
         font-weight: 600;
-        color: #fecaca;
+        color: ${t('primaryLightColor')};
         padding: 4px 12px;
         margin: 0;
       }
@@ -548,22 +1036,323 @@ export default class MegaMenuApplicationCustomizer
         display: block;
         padding: 8px 24px;
         font-size: 14px;
-        color: white;
+        color: ${t('textOnPrimaryColor')};
         text-decoration: none;
         transition: all 0.2s ease;
         border-radius: 6px;
       }
 
       .mobile-column-link:hover {
-        color: #fecaca;
-        background-color: #991b1b;
+        color: ${t('primaryLightColor')};
+        background-color: ${t('primaryDarkColor')};
+      }
+
+      .mobile-nav-button.is-active-section, .mobile-nav-link.is-active-section,
+      .mobile-column-link.is-current, .mobile-drill-button.is-active-trail {
+        background-color: ${t('primaryDarkColor')};
+      }
+
+      .mobile-column-link.is-current {
+        font-weight: 600;
+        box-shadow: inset 3px 0 0 ${t('primaryLightColor')};
+      }
+
+      .mobile-drill-button, .mobile-back-button {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        width: 100%;
+        padding: 8px 24px;
+        font-size: 14px;
+        color: ${t('textOnPrimaryColor')};
+        background: none;
+        border: none;
+        cursor: pointer;
+        border-radius: 6px;
+        text-align: left;
+      }
+
+      .mobile-back-button {
+        padding-left: 12px;
+        font-weight: 600;
+        color: ${t('primaryLightColor')};
+      }
+
+      .mobile-drill-button:hover, .mobile-back-button:hover {
+        color: ${t('primaryLightColor')};
+        background-color: ${t('primaryDarkColor')};
+      }
+
+      .mobile-drill-panel {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 0;
+        min-height: 100%;
+        padding: 8px 8px 12px;
+        box-sizing: border-box;
+        background-color: ${t('primaryDarkerColor')};
+        z-index: 1;
+      }
+
+      .mobile-drill-title {
+        font-weight: 600;
+      }
+
+      .menu-editor {
+        position: fixed;
+        top: 0;
+        right: 0;
+        bottom: 0;
+        width: 440px;
+        max-width: 100%;
+        display: flex;
+        flex-direction: column;
+        font-family: ${t('fontFamily')};
+        font-size: 14px;
+        color: ${t('textColor')};
+        background-color: ${t('surfaceColor')};
+        border-left: 1px solid ${t('borderColor')};
+        box-shadow: -10px 0 15px -3px rgba(0, 0, 0, 0.1);
+        z-index: 1100;
+      }
+
+      .menu-editor-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 12px 16px;
+        color: ${t('textOnPrimaryColor')};
+        background-color: ${t('primaryColor')};
+      }
+
+      .menu-editor-heading {
+        flex: 1;
+        margin: 0;
+        font-size: 18px;
+        font-weight: 600;
+      }
+
+      .menu-editor-save {
+        padding: 6px 14px;
+        font-weight: 600;
+        color: ${t('primaryDarkerColor')};
+        background-color: ${t('surfaceColor')};
+        border: none;
+        border-radius: 6px;
+        cursor: pointer;
+      }
+
+      .menu-editor-save:disabled {
+        opacity: 0.6;
+        cursor: default;
+      }
+
+      .menu-editor-header .menu-editor-button {
+        color: ${t('textOnPrimaryColor')};
+      }
+
+      .menu-editor-message {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 16px;
+        background-color: ${t('primaryLighterColor')};
+      }
+
+      .menu-editor-message.is-error {
+        color: #a4262c;
+        background-color: #fde7e9;
+      }
+
+      .menu-editor-body {
+        flex: 1;
+        overflow-y: auto;
+        padding: 8px 16px 16px;
+      }
+
+      .menu-editor-list {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+      }
+
+      .menu-editor-list .menu-editor-list {
+        margin-left: 20px;
+      }
+
+      .menu-editor-entry.is-dragged {
+        opacity: 0.5;
+      }
+
+      .menu-editor-navigation {
+        padding-bottom: 8px;
+        border-bottom: 1px solid ${t('borderColor')};
+      }
+
+      .menu-editor-row {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        padding: 4px 0;
+      }
+
+      .menu-editor-navigation > .menu-editor-row .menu-editor-title,
+      .menu-editor-column > .menu-editor-row .menu-editor-title {
+        font-weight: 600;
+      }
+
+      .menu-editor-handle {
+        cursor: move;
+        color: ${t('mutedTextColor')};
+      }
+
+      .menu-editor-translations {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+        flex: 1;
+        min-width: 0;
+      }
+
+      .menu-editor-translation {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .menu-editor-culture {
+        width: 40px;
+        font-size: 11px;
+        color: ${t('mutedTextColor')};
+      }
+
+      .menu-editor-input {
+        flex: 1;
+        min-width: 0;
+        padding: 4px 6px;
+        font-family: inherit;
+        font-size: 13px;
+        color: ${t('textColor')};
+        border: 1px solid ${t('borderColor')};
+        border-radius: 4px;
+      }
+
+      .menu-editor-move {
+        max-width: 110px;
+        font-size: 13px;
+      }
+
+      .menu-editor-button {
+        padding: 2px 6px;
+        color: ${t('textColor')};
+        background: none;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .menu-editor-button:hover, .menu-editor-add-button:hover {
+        background-color: ${t('primaryLighterColor')};
+      }
+
+      .menu-editor-button:disabled {
+        opacity: 0.3;
+        cursor: default;
+      }
+
+      .menu-editor-add-button {
+        padding: 2px 6px;
+        font-size: 13px;
+        color: ${t('linkColor')};
+        background: none;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .menu-version-heading {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .menu-version-heading h3 {
+        margin: 8px 0;
+        font-size: 16px;
+      }
+
+      .menu-version {
+        padding: 8px 0;
+        border-bottom: 1px solid ${t('borderColor')};
+      }
+
+      .menu-version-row {
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+      }
+
+      .menu-version-label {
+        font-weight: 600;
+      }
+
+      .menu-version-info, .menu-version-comment, .menu-diff-empty {
+        font-size: 12px;
+        color: ${t('mutedTextColor')};
+      }
+
+      .menu-diff {
+        list-style: none;
+        margin: 8px 0 0;
+        padding: 0;
+        font-size: 13px;
+      }
+
+      .menu-diff-change {
+        padding: 2px 0 2px 8px;
+        border-left: 3px solid ${t('borderColor')};
+      }
+
+      .menu-diff-added {
+        border-left-color: #107c10;
+      }
+
+      .menu-diff-removed {
+        border-left-color: #a4262c;
+      }
+
+      .menu-diff-moved, .menu-diff-renamed {
+        border-left-color: ${t('accentColor')};
+      }
+
+      .menu-diff-type {
+        font-weight: 600;
+      }
+
+      .menu-diff-detail {
+        display: block;
+        font-size: 12px;
+        color: ${t('mutedTextColor')};
       }
     `;
+  }
 
-    document.head.appendChild(style);
+  private _getThemeProperty(): MenuTheme | undefined {
+    const theme = this.properties.theme;
+    if (typeof theme !== 'string') {
+      return theme;
+    }
+    try {
+      return JSON.parse(theme);
+    } catch (error) {
+      console.warn('Ignoring invalid theme property:', error);
+      return undefined;
+    }
   }
 
-  private _onDispose(): void {
+  private _onDispose(placeholder: PlaceholderContent): void {
+    ReactDOM.unmountComponentAtNode(placeholder.domElement);
     console.log('[MegaMenuApplicationCustomizer._onDispose] Disposed custom top placeholder.');
   }
 }
\ No newline at end of file
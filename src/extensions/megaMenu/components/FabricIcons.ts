@@ -0,0 +1,25 @@
+import { MenuData, MenuItem } from '../services/MegaMenuService';
+
+let fabricIconsLoaded: boolean = false;
+
+/**
+ * Adds the Fabric icon classes to the page when any menu link uses an icon.
+ * The page does not reliably include them, and menus without icons do not need the extra styles.
+ */
+export function ensureFabricIcons(menuData: MenuData): void {
+  if (fabricIconsLoaded || !hasIcons(menuData)) {
+    return;
+  }
+
+  fabricIconsLoaded = true;
+  // The build compiles the stylesheet into a module that adds its styles when it is loaded
+  require('./FabricIcons.scss');
+}
+
+function hasIcons(menuData: MenuData): boolean {
+  const itemHasIcon = (menuItem: MenuItem): boolean =>
+    !!menuItem.icon || !!menuItem.children && menuItem.children.some(itemHasIcon);
+
+  return menuData.navigation.some(item =>
+    !!item.megaMenu && item.megaMenu.columns.some(column => column.items.some(itemHasIcon)));
+}
@@ -1,34 +1,102 @@
 import * as React from 'react';
+import * as strings from 'MegaMenuApplicationCustomizerStrings';
+import { MenuData, NavigationItem, MenuColumn, MenuItem, MenuCallToAction, LocalizedText } from '../services/MegaMenuService';
+import { resolveLocalizedText } from '../services/LocalizedText';
+import { UrlPolicy } from '../services/UrlPolicy';
+import { ActiveLinkMatcher, IActiveMenuLink } from '../services/ActiveLinkMatcher';
+import { MenuTelemetry } from '../services/MenuTelemetry';
+import { filterScheduledMenuData, getNextVisibilityChange } from '../services/MenuSchedule';
+import { ensureFabricIcons } from './FabricIcons';
+import { MenuSearch } from './MenuSearch';
+import { getKey, getFocusableElements, moveFocus, moveFocusInDropdown } from './MenuKeyboard';
 
 export interface IMegaMenuProps {
-  menuData: any;
+  menuData: MenuData | null;
   isDomLoading: boolean;
+  /** Links, images and buttons with URLs the policy rejects are not rendered */
+  urlPolicy?: UrlPolicy;
+  /** Culture of the page, e.g. "es-es", used to pick translated menu texts */
+  cultureName: string;
+  /** URL of the page whose link is highlighted; defaults to the browser location */
+  currentUrl?: string;
+  /** Records menu opens, link clicks and searches */
+  telemetry?: MenuTelemetry;
+  /** Shows an edit button that calls this, for users who may edit the menu file */
+  onEditMenu?: () => void;
+  /** Set while a menu file is previewed; shows the preview ribbon and the warnings of the entries */
+  preview?: IMegaMenuPreview;
+}
+
+export interface IMegaMenuPreview {
+  fileName: string;
+  /** Problems that belong to no entry shown in the menu */
+  warnings: string[];
+  /** Why the file could not be previewed; the live menu is shown instead */
+  error?: string;
+  /** The page without the preview parameter */
+  exitUrl: string;
+}
+
+/** Where a link sits in the menu, reported with its clicks */
+interface ILinkContext {
+  menu: string;
+  column?: string;
+  /** 1-based position in its column or submenu */
+  position?: number;
 }
 
 export interface IMegaMenuState {
-  activeMenu: string | null;
+  /** Index of the open top-level item; titles are not unique */
+  activeMenu: number | null;
   isMobileMenuOpen: boolean;
-  activeMobileSubmenu: string | null;
+  activeMobileSubmenu: number | null;
+  /** Items the mobile menu has drilled into, innermost last */
+  mobileDrillPath: MenuItem[];
 }
 
+/** Browsers fire longer timers at once, so changes further away are waited for in steps */
+const MAX_TIMER_DELAY: number = 0x7fffffff;
+
 export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
   private timeoutRef: number | null = null;
+  /** Re-renders the menu when a scheduled entry appears or disappears */
+  private scheduleTimeout: number | null = null;
+  /**
+   * The menu data without the scheduled entries that are hidden, kept until the data or the schedule
+   * changes so that the search index built from it is not rebuilt on every render
+   */
+  private visibleMenuData: MenuData | null = null;
+  private visibleMenuDataSource: MenuData | null = null;
+  private mobileMenuContent: HTMLDivElement | null = null;
+  private desktopNav: HTMLElement | null = null;
+  private dropdown: HTMLDivElement | null = null;
+  private hamburger: HTMLButtonElement | null = null;
+  private mobileDrillPanel: HTMLDivElement | null = null;
+  private triggers: { [index: number]: HTMLElement } = {};
+  private drillButtons: Map<MenuItem, HTMLButtonElement> = new Map<MenuItem, HTMLButtonElement>();
+  /** Titles of the rendered top-level items, by index */
+  private navigationTitles: string[] = [];
+  /** The link of the current page, found while rendering */
+  private activeLink: IActiveMenuLink | null = null;
+  /** Menu and column of every link and button, found while rendering when telemetry is on */
+  private linkContexts: Map<MenuItem | MenuCallToAction, ILinkContext> = new Map<MenuItem | MenuCallToAction, ILinkContext>();
 
   constructor(props: IMegaMenuProps) {
     super(props);
     this.state = {
       activeMenu: null,
       isMobileMenuOpen: false,
-      activeMobileSubmenu: null
+      activeMobileSubmenu: null,
+      mobileDrillPath: []
     };
   }
 
-  private handleMouseEnter = (title: string, hasMegaMenu: boolean): void => {
+  private handleMouseEnter = (index: number, hasMegaMenu: boolean): void => {
     if (window.innerWidth >= 768 && hasMegaMenu) {
       if (this.timeoutRef) {
         clearTimeout(this.timeoutRef);
       }
-      this.setState({ activeMenu: title });
+      this.setState({ activeMenu: index });
     }
   }
 
@@ -40,26 +108,505 @@ export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
     }
   }
 
-  private toggleMobileSubmenu = (title: string): void => {
+  private openMenu(index: number, focusLink?: 'first' | 'last'): void {
+    if (this.timeoutRef) {
+      clearTimeout(this.timeoutRef);
+    }
+    this.setState({ activeMenu: index }, () => {
+      if (focusLink) {
+        this.focusDropdownLink(focusLink);
+      }
+    });
+  }
+
+  private closeMenu(returnFocus: boolean): void {
+    const index = this.state.activeMenu;
+    this.setState({ activeMenu: null }, () => {
+      if (returnFocus && index !== null && this.triggers[index]) {
+        this.triggers[index].focus();
+      }
+    });
+  }
+
+  private focusDropdownLink(which: 'first' | 'last'): void {
+    const links = this.dropdown ? getFocusableElements(this.dropdown) : [];
+    if (links.length > 0) {
+      links[which === 'first' ? 0 : links.length - 1].focus();
+    }
+  }
+
+  private handleTriggerClick = (index: number): void => {
+    if (this.state.activeMenu === index) {
+      this.closeMenu(false);
+    } else {
+      this.openMenu(index);
+    }
+  }
+
+  private handleTriggerKeyDown = (event: React.KeyboardEvent<HTMLElement>, index: number, hasMegaMenu: boolean): void => {
+    const key = getKey(event);
+
+    if (hasMegaMenu && (key === 'ArrowDown' || key === 'ArrowUp')) {
+      this.openMenu(index, key === 'ArrowDown' ? 'first' : 'last');
+      event.preventDefault();
+    } else if (hasMegaMenu && key === 'Tab' && !event.shiftKey && this.state.activeMenu === index) {
+      // The dropdown follows the header in the DOM, so Tab moves into it explicitly
+      this.focusDropdownLink('first');
+      event.preventDefault();
+    } else if (key === 'Escape') {
+      this.closeMenu(true);
+    } else if (this.desktopNav && moveFocus(getFocusableElements(this.desktopNav), event.currentTarget, key, 'horizontal')) {
+      event.preventDefault();
+    }
+  }
+
+  private handleDropdownKeyDown = (event: React.KeyboardEvent<HTMLDivElement>): void => {
+    const key = getKey(event);
+    const current = document.activeElement as HTMLElement;
+    const links = getFocusableElements(this.dropdown);
+    const trigger = this.triggers[this.state.activeMenu];
+
+    if (key === 'Escape') {
+      this.closeMenu(true);
+      event.preventDefault();
+    } else if (moveFocusInDropdown(this.dropdown, current, key)) {
+      event.preventDefault();
+    } else if (key === 'Tab' && !event.shiftKey && current === links[links.length - 1]) {
+      // Continue with the next top-level item after the last link
+      const triggers = getFocusableElements(this.desktopNav);
+      const next = triggers[triggers.indexOf(trigger) + 1];
+      this.closeMenu(!next);
+      if (next) {
+        next.focus();
+      }
+      event.preventDefault();
+    } else if (key === 'Tab' && event.shiftKey && current === links[0]) {
+      trigger.focus();
+      event.preventDefault();
+    }
+  }
+
+  private handleMobileKeyDown = (event: React.KeyboardEvent<HTMLDivElement>): void => {
+    const key = getKey(event);
+
+    if (key === 'Escape') {
+      if (this.state.mobileDrillPath.length > 0) {
+        this.drillBack();
+      } else {
+        this.setState({ isMobileMenuOpen: false, mobileDrillPath: [] }, () => {
+          if (this.hamburger) {
+            this.hamburger.focus();
+          }
+        });
+      }
+      event.preventDefault();
+      return;
+    }
+
+    // The innermost drill-down panel covers the levels above it
+    const level = this.mobileDrillPanel || this.mobileMenuContent;
+    if (level && moveFocus(getFocusableElements(level), document.activeElement, key, 'vertical')) {
+      event.preventDefault();
+    }
+  }
+
+  private toggleMobileSubmenu = (index: number): void => {
     this.setState({
-      activeMobileSubmenu: this.state.activeMobileSubmenu === title ? null : title
+      activeMobileSubmenu: this.state.activeMobileSubmenu === index ? null : index,
+      mobileDrillPath: []
     });
   }
 
   private toggleMobileMenu = (): void => {
     this.setState({
-      isMobileMenuOpen: !this.state.isMobileMenuOpen
+      isMobileMenuOpen: !this.state.isMobileMenuOpen,
+      mobileDrillPath: []
     });
   }
 
+  private drillInto = (menuItem: MenuItem): void => {
+    this.setState({
+      mobileDrillPath: this.state.mobileDrillPath.concat(menuItem)
+    }, () => {
+      if (this.mobileDrillPanel) {
+        (this.mobileDrillPanel.querySelector('.mobile-back-button') as HTMLElement).focus();
+      }
+    });
+    // Panels are positioned at the top of the scrollable menu
+    if (this.mobileMenuContent) {
+      this.mobileMenuContent.scrollTop = 0;
+    }
+  }
+
+  private drillBack = (): void => {
+    const { mobileDrillPath } = this.state;
+    const closedItem = mobileDrillPath[mobileDrillPath.length - 1];
+
+    this.setState({
+      mobileDrillPath: mobileDrillPath.slice(0, -1)
+    }, () => {
+      // Return focus to the button that opened the closed level
+      const drillButton = this.drillButtons.get(closedItem);
+      if (drillButton) {
+        drillButton.focus();
+      }
+    });
+  }
+
+  private text(value: LocalizedText | undefined): string {
+    return resolveLocalizedText(value, this.props.cultureName);
+  }
+
+  private isUrlAllowed = (url: string): boolean => {
+    return !this.props.urlPolicy || this.props.urlPolicy.isAllowed(url);
+  }
+
+  private isCurrentPage(menuItem: MenuItem): boolean {
+    return !!this.activeLink && this.activeLink.item === menuItem;
+  }
+
+  private isActiveTrail(menuItem: MenuItem): boolean {
+    return !!this.activeLink && this.activeLink.ancestors.indexOf(menuItem) !== -1;
+  }
+
+  private indexLinks(navigation: { title: string; megaMenu?: { columns: MenuColumn[] } }[]): void {
+    this.linkContexts.clear();
+
+    const indexItems = (items: MenuItem[], context: ILinkContext): void => {
+      items.forEach((menuItem, index) => {
+        this.linkContexts.set(menuItem, { ...context, position: index + 1 });
+        if (menuItem.children) {
+          indexItems(menuItem.children, context);
+        }
+      });
+    };
+
+    navigation.forEach(item => {
+      if (item.megaMenu) {
+        item.megaMenu.columns.forEach(column => {
+          const context: ILinkContext = { menu: item.title, column: this.text(column.title) };
+          if (column.cta) {
+            this.linkContexts.set(column.cta, context);
+          }
+          indexItems(column.items, context);
+        });
+      }
+    });
+  }
+
+  private trackLinkClick(title: string, href: string, context: ILinkContext | undefined): void {
+    if (this.props.telemetry) {
+      this.props.telemetry.track({ type: 'linkClick', title, href, ...context });
+    }
+  }
+
+  private trackItemClick = (menuItem: MenuItem): void => {
+    this.trackLinkClick(this.text(menuItem.title), menuItem.href, this.linkContexts.get(menuItem));
+  }
+
+  private renderItemContent(menuItem: MenuItem): React.ReactElement<any>[] {
+    const content: React.ReactElement<any>[] = [];
+
+    if (menuItem.icon) {
+      content.push(<i key="icon" className={`ms-Icon ms-Icon--${menuItem.icon} link-icon`} aria-hidden="true" />);
+    }
+
+    content.push(
+      <span key="text" className="link-text">
+        <span className="link-title">
+          {this.text(menuItem.title)}
+          {menuItem.badge && (
+            <span className={`link-badge link-badge-${menuItem.badge.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`}>
+              {menuItem.badge}
+            </span>
+          )}
+          {this.renderWarnings(menuItem.warnings)}
+        </span>
+        {menuItem.description && (
+          <span className="link-description">{this.text(menuItem.description)}</span>
+        )}
+      </span>
+    );
+
+    return content;
+  }
+
+  /** Marks an entry with the problems found in it while a menu file is previewed */
+  private renderWarnings(warnings: string[] | undefined): React.ReactElement<any> | null {
+    if (!this.props.preview || !warnings || warnings.length === 0) {
+      return null;
+    }
+    return (
+      <span className="preview-warning" role="img" title={warnings.join('\n')} aria-label={`${strings.PreviewWarningsLabel}: ${warnings.join('; ')}`}>
+        ⚠
+      </span>
+    );
+  }
+
+  private renderPreviewRibbon(preview: IMegaMenuPreview, navigation: NavigationItem[]): React.ReactElement<any> {
+    let warningCount = preview.warnings.length;
+    const countWarnings = (entry: { warnings?: string[] }) => {
+      warningCount += entry.warnings ? entry.warnings.length : 0;
+    };
+    const countItemWarnings = (items: MenuItem[]) => items.forEach(menuItem => {
+      countWarnings(menuItem);
+      if (menuItem.children) {
+        countItemWarnings(menuItem.children);
+      }
+    });
+    navigation.forEach(item => {
+      countWarnings(item);
+      if (item.megaMenu) {
+        item.megaMenu.columns.forEach(column => {
+          countWarnings(column);
+          countItemWarnings(column.items);
+        });
+      }
+    });
+
+    return (
+      <div className="preview-ribbon" role="status">
+        <div className="preview-ribbon-summary">
+          <strong>{strings.PreviewLabel}</strong>
+          <span>{preview.fileName}</span>
+          {!preview.error && <span>{strings.PreviewWarningsLabel}: {warningCount}</span>}
+          <a href={preview.exitUrl} className="preview-ribbon-exit">{strings.ExitPreviewLabel}</a>
+        </div>
+        {preview.error && <div className="preview-ribbon-error">{strings.PreviewErrorMessage} {preview.error}</div>}
+        {preview.warnings.length > 0 && (
+          <ul className="preview-ribbon-warnings">
+            {preview.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  private renderFeatured(column: MenuColumn): React.ReactElement<any> | null {
+    if (column.variant !== 'featured') {
+      return null;
+    }
+
+    return (
+      <div className="featured-panel">
+        {column.image && this.isUrlAllowed(column.image) && (
+          <img className="featured-image" src={column.image} alt={this.text(column.imageAlt)} />
+        )}
+        {column.headline && (
+          <p className="featured-headline">{this.text(column.headline)}</p>
+        )}
+        {column.description && (
+          <p className="featured-description">{this.text(column.description)}</p>
+        )}
+        {column.cta && this.isUrlAllowed(column.cta.href) && (
+          <a
+            className="featured-cta"
+            href={column.cta.href}
+            onClick={() => this.trackLinkClick(this.text(column.cta.text), column.cta.href, this.linkContexts.get(column.cta))}
+          >
+            {this.text(column.cta.text)}
+          </a>
+        )}
+      </div>
+    );
+  }
+
+  private renderMenuItem(menuItem: MenuItem, itemIndex: number): React.ReactElement<any> | null {
+    if (!this.isUrlAllowed(menuItem.href)) {
+      return null;
+    }
+
+    if (!menuItem.children || menuItem.children.length === 0) {
+      return (
+        <li key={itemIndex}>
+          <a
+            href={menuItem.href}
+            className={this.isCurrentPage(menuItem) ? 'column-link is-current' : 'column-link'}
+            aria-current={this.isCurrentPage(menuItem) ? 'page' : undefined}
+            onClick={() => this.trackItemClick(menuItem)}
+          >
+            {this.renderItemContent(menuItem)}
+          </a>
+        </li>
+      );
+    }
+
+    const trigger = this.renderItemContent(menuItem).concat(
+      <span key="arrow" className="flyout-arrow" aria-hidden="true">▶</span>
+    );
+
+    const triggerClassName = this.isCurrentPage(menuItem) ? 'column-link flyout-trigger is-current'
+      : this.isActiveTrail(menuItem) ? 'column-link flyout-trigger is-active-trail'
+      : 'column-link flyout-trigger';
+
+    // Items with children open a side panel on hover, nested to any depth
+    return (
+      <li key={itemIndex} className="has-flyout">
+        {menuItem.href ? (
+          <a
+            href={menuItem.href}
+            className={triggerClassName}
+            aria-current={this.isCurrentPage(menuItem) ? 'page' : undefined}
+            onClick={() => this.trackItemClick(menuItem)}
+          >
+            {trigger}
+          </a>
+        ) : (
+          <span className={triggerClassName} tabIndex={0}>{trigger}</span>
+        )}
+        <ul className="flyout">
+          {menuItem.children.map((child, childIndex) => this.renderMenuItem(child, childIndex))}
+        </ul>
+      </li>
+    );
+  }
+
+  private renderMobileMenuItem(menuItem: MenuItem, itemIndex: number): React.ReactElement<any> | null {
+    if (!this.isUrlAllowed(menuItem.href)) {
+      return null;
+    }
+
+    if (!menuItem.children || menuItem.children.length === 0) {
+      return (
+        <a
+          key={itemIndex}
+          href={menuItem.href}
+          className={this.isCurrentPage(menuItem) ? 'mobile-column-link is-current' : 'mobile-column-link'}
+          aria-current={this.isCurrentPage(menuItem) ? 'page' : undefined}
+          onClick={() => this.trackItemClick(menuItem)}
+        >
+          {this.renderItemContent(menuItem)}
+        </a>
+      );
+    }
+
+    return (
+      <button
+        key={itemIndex}
+        ref={element => element ? this.drillButtons.set(menuItem, element) : this.drillButtons.delete(menuItem)}
+        onClick={() => this.drillInto(menuItem)}
+        className={this.isCurrentPage(menuItem) || this.isActiveTrail(menuItem)
+          ? 'mobile-drill-button is-active-trail'
+          : 'mobile-drill-button'}
+        aria-expanded={this.state.mobileDrillPath.indexOf(menuItem) !== -1}
+      >
+        {this.renderItemContent(menuItem)}
+        <span className="mobile-drill-arrow" aria-hidden="true">›</span>
+      </button>
+    );
+  }
+
+  private renderMobileDrillPanel(): React.ReactElement<any> | null {
+    const { mobileDrillPath } = this.state;
+    if (mobileDrillPath.length === 0) {
+      return null;
+    }
+
+    // The innermost level covers the menu; Back returns to the level above
+    const current = mobileDrillPath[mobileDrillPath.length - 1];
+    return (
+      <div
+        className="mobile-drill-panel"
+        role="group"
+        aria-label={this.text(current.title)}
+        ref={element => this.mobileDrillPanel = element}
+      >
+        <button onClick={this.drillBack} className="mobile-back-button">
+          ‹ {strings.BackButtonLabel}
+        </button>
+        {current.href ? (
+          <a
+            href={current.href}
+            className={this.isCurrentPage(current) ? 'mobile-column-link mobile-drill-title is-current' : 'mobile-column-link mobile-drill-title'}
+            aria-current={this.isCurrentPage(current) ? 'page' : undefined}
+            onClick={() => this.trackItemClick(current)}
+          >
+            {this.text(current.title)}
+          </a>
+        ) : (
+          <h4 className="mobile-column-title">{this.text(current.title)}</h4>
+        )}
+        {current.children.map((child, childIndex) => this.renderMobileMenuItem(child, childIndex))}
+      </div>
+    );
+  }
+
+  public componentDidMount(): void {
+    if (this.props.menuData && this.props.menuData.navigation) {
+      ensureFabricIcons(this.props.menuData);
+    }
+    this.scheduleVisibilityUpdate();
+  }
+
+  public componentWillReceiveProps(nextProps: IMegaMenuProps): void {
+    // Following a link navigates in place on modern pages, leaving the menu open otherwise
+    if (nextProps.currentUrl !== this.props.currentUrl) {
+      if (this.timeoutRef) {
+        clearTimeout(this.timeoutRef);
+        this.timeoutRef = null;
+      }
+      this.setState({
+        activeMenu: null,
+        isMobileMenuOpen: false,
+        activeMobileSubmenu: null,
+        mobileDrillPath: []
+      });
+    }
+  }
+
+  public componentDidUpdate(prevProps: IMegaMenuProps, prevState: IMegaMenuState): void {
+    if (this.props.menuData && this.props.menuData.navigation) {
+      ensureFabricIcons(this.props.menuData);
+    }
+    this.scheduleVisibilityUpdate();
+
+    if (this.props.telemetry) {
+      const { activeMenu, activeMobileSubmenu } = this.state;
+      if (activeMenu !== null && activeMenu !== prevState.activeMenu) {
+        this.props.telemetry.track({ type: 'menuOpen', menu: this.navigationTitles[activeMenu] });
+      }
+      if (activeMobileSubmenu !== null && activeMobileSubmenu !== prevState.activeMobileSubmenu) {
+        this.props.telemetry.track({ type: 'menuOpen', menu: this.navigationTitles[activeMobileSubmenu] });
+      }
+    }
+  }
+
   public componentWillUnmount(): void {
     if (this.timeoutRef) {
       clearTimeout(this.timeoutRef);
     }
+    if (this.scheduleTimeout) {
+      clearTimeout(this.scheduleTimeout);
+    }
+  }
+
+  private scheduleVisibilityUpdate(): void {
+    if (this.scheduleTimeout) {
+      clearTimeout(this.scheduleTimeout);
+      this.scheduleTimeout = null;
+    }
+
+    const { menuData } = this.props;
+    const now = Date.now();
+    const next = menuData && menuData.navigation ? getNextVisibilityChange(menuData, now) : null;
+    if (next !== null) {
+      this.scheduleTimeout = window.setTimeout(() => {
+        this.visibleMenuData = null;
+        this.forceUpdate();
+      }, Math.min(next - now, MAX_TIMER_DELAY));
+    }
+  }
+
+  private getVisibleMenuData(): MenuData {
+    if (!this.visibleMenuData || this.visibleMenuDataSource !== this.props.menuData) {
+      this.visibleMenuData = filterScheduledMenuData(this.props.menuData, Date.now());
+      this.visibleMenuDataSource = this.props.menuData;
+    }
+    return this.visibleMenuData;
   }
 
   public render(): React.ReactElement<IMegaMenuProps> {
-    const { menuData, isDomLoading } = this.props;
+    const { isDomLoading } = this.props;
     const { activeMenu, isMobileMenuOpen, activeMobileSubmenu } = this.state;
 
     if (isDomLoading) {
@@ -68,10 +615,10 @@ export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
           <div className="mega-menu-container">
             <div className="mega-menu-header">
               <div className="desktop-nav">
-                <span style={{ color: 'white' }}>Loading menu...</span>
+                <span className="menu-loading">{strings.LoadingMessage}</span>
               </div>
               <div className="mobile-menu-button">
-                <button className="hamburger" disabled>
+                <button className="hamburger" aria-label={strings.MenuButtonLabel} disabled>
                   ☰
                 </button>
               </div>
@@ -81,45 +628,98 @@ export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
       );
     }
 
-    if (!menuData || !menuData.navigation) {
+    if (!this.props.menuData || !this.props.menuData.navigation) {
       return null;
     }
 
-    const navigation = menuData.navigation;
+    const menuData = this.getVisibleMenuData();
+
+    const navigation = menuData.navigation
+      .filter(item => this.isUrlAllowed(item.href))
+      .map(item => ({ ...item, title: this.text(item.title) }));
+    this.navigationTitles = navigation.map(item => item.title);
+    if (this.props.telemetry) {
+      this.indexLinks(navigation);
+    }
+    this.activeLink = new ActiveLinkMatcher(this.props.currentUrl || window.location.href)
+      .findActiveLink({ ...menuData, navigation });
+    const activeSection = this.activeLink ? this.activeLink.navigationIndex : -1;
+    const isCurrentNavigationItem = (index: number) => activeSection === index && !!this.activeLink && !this.activeLink.item;
+
+    const activeIndex = activeMenu !== null && navigation[activeMenu] && navigation[activeMenu].megaMenu ? activeMenu : -1;
 
     return (
-      <nav className="mega-menu">
+      <nav className="mega-menu" aria-label={strings.NavigationLabel}>
+        {this.props.preview && this.renderPreviewRibbon(this.props.preview, navigation)}
         <div className="mega-menu-container">
           <div className="mega-menu-header">
             {/* Desktop Navigation */}
-            <div className="desktop-nav">
-              {navigation.map((item: any) => (
-                <div
-                  key={item.title}
-                  className="nav-item"
-                  onMouseEnter={() => this.handleMouseEnter(item.title, !!item.megaMenu)}
+            <ul className="desktop-nav" ref={element => this.desktopNav = element}>
+              {navigation.map((item, index: number) => (
+                <li
+                  key={index}
+                  className={index === activeSection ? 'nav-item is-active-section' : 'nav-item'}
+                  onMouseEnter={() => this.handleMouseEnter(index, !!item.megaMenu)}
                   onMouseLeave={this.handleMouseLeave}
                 >
                   {item.megaMenu ? (
-                    <button className="nav-button">
+                    <button
+                      className="nav-button"
+                      ref={element => this.triggers[index] = element}
+                      aria-expanded={activeMenu === index}
+                      aria-controls={`mega-menu-dropdown-${index}`}
+                      onClick={() => this.handleTriggerClick(index)}
+                      onKeyDown={event => this.handleTriggerKeyDown(event, index, true)}
+                    >
                       <span>{item.title}</span>
-                      <span className="chevron">▼</span>
+                      {this.renderWarnings(item.warnings)}
+                      <span className="chevron" aria-hidden="true">▼</span>
                     </button>
                   ) : (
-                    <a href={item.href} className="nav-link">
+                    <a
+                      href={item.href}
+                      className="nav-link"
+                      aria-current={isCurrentNavigationItem(index) ? 'page' : undefined}
+                      onClick={() => this.trackLinkClick(item.title, item.href, { menu: item.title, position: index + 1 })}
+                      onKeyDown={event => this.handleTriggerKeyDown(event, index, false)}
+                    >
                       <span>{item.title}</span>
+                      {this.renderWarnings(item.warnings)}
                     </a>
                   )}
-                </div>
+                </li>
               ))}
-            </div>
+            </ul>
+
+            <MenuSearch
+              className="desktop-search"
+              idPrefix="mega-menu-search"
+              menuData={menuData}
+              cultureName={this.props.cultureName}
+              isUrlAllowed={this.isUrlAllowed}
+              telemetry={this.props.telemetry}
+            />
+
+            {this.props.onEditMenu && (
+              <button
+                className="edit-menu-button"
+                title={strings.EditMenuLabel}
+                aria-label={strings.EditMenuLabel}
+                onClick={this.props.onEditMenu}
+              >
+                ✎
+              </button>
+            )}
 
             {/* Mobile Menu Button */}
             <div className="mobile-menu-button">
               <button
                 onClick={this.toggleMobileMenu}
                 className="hamburger"
-                aria-label="Main menu"
+                aria-label={strings.MenuButtonLabel}
+                aria-expanded={isMobileMenuOpen}
+                aria-controls="mega-menu-mobile"
+                ref={element => this.hamburger = element}
               >
                 {isMobileMenuOpen ? '✕' : '☰'}
               </button>
@@ -127,9 +727,14 @@ export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
           </div>
 
           {/* Desktop Mega Menu Dropdown */}
-          {activeMenu && (
+          {activeIndex !== -1 && (
             <div
               className="mega-menu-dropdown"
+              id={`mega-menu-dropdown-${activeIndex}`}
+              role="region"
+              aria-label={navigation[activeIndex].title}
+              ref={element => this.dropdown = element}
+              onKeyDown={this.handleDropdownKeyDown}
               onMouseEnter={() => {
                 if (this.timeoutRef) {
                   clearTimeout(this.timeoutRef);
@@ -138,26 +743,19 @@ export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
               onMouseLeave={this.handleMouseLeave}
             >
               <div className="dropdown-content">
-                {navigation.map((item: any) => {
-                  if (item.title === activeMenu && item.megaMenu) {
+                {navigation.map((item, index: number) => {
+                  if (index === activeIndex) {
                     return (
-                      <div key={item.title} className="columns-grid">
-                        {item.megaMenu.columns.map((column: any, columnIndex: number) => (
-                          <div key={columnIndex} className="column">
+                      <div key={index} className="columns-grid">
+                        {item.megaMenu.columns.map((column: MenuColumn, columnIndex: number) => (
+                          <div key={columnIndex} className={column.variant === 'featured' ? 'column column-featured' : 'column'}>
                             <h3 className="column-title">
-                              {column.title}
+                              {this.text(column.title)}
+                              {this.renderWarnings(column.warnings)}
                             </h3>
+                            {this.renderFeatured(column)}
                             <ul className="column-list">
-                              {column.items.map((menuItem: any, itemIndex: number) => (
-                                <li key={itemIndex}>
-                                  <a
-                                    href={menuItem.href}
-                                    className="column-link"
-                                  >
-                                    {menuItem.title}
-                                  </a>
-                                </li>
-                              ))}
+                              {column.items.map((menuItem: MenuItem, itemIndex: number) => this.renderMenuItem(menuItem, itemIndex))}
                             </ul>
                           </div>
                         ))}
@@ -173,42 +771,48 @@ export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
 
         {/* Mobile Menu */}
         {isMobileMenuOpen && (
-          <div className="mobile-menu">
-            <div className="mobile-menu-content">
-              {navigation.map((item: any) => (
-                <div key={item.title}>
+          <div className="mobile-menu" id="mega-menu-mobile" onKeyDown={this.handleMobileKeyDown}>
+            <div className="mobile-menu-content" ref={element => this.mobileMenuContent = element}>
+              <MenuSearch
+                className="mobile-search"
+                idPrefix="mega-menu-mobile-search"
+                menuData={menuData}
+                cultureName={this.props.cultureName}
+                isUrlAllowed={this.isUrlAllowed}
+                telemetry={this.props.telemetry}
+              />
+              {navigation.map((item, index: number) => (
+                <div key={index}>
                   {item.megaMenu ? (
                     <div>
                       <button
-                        onClick={() => this.toggleMobileSubmenu(item.title)}
-                        className="mobile-nav-button"
+                        onClick={() => this.toggleMobileSubmenu(index)}
+                        className={index === activeSection ? 'mobile-nav-button is-active-section' : 'mobile-nav-button'}
+                        aria-expanded={activeMobileSubmenu === index}
+                        aria-controls={`mega-menu-mobile-submenu-${index}`}
                       >
                         <span>{item.title}</span>
+                        {this.renderWarnings(item.warnings)}
                         <span 
+                          aria-hidden="true"
                           className="mobile-chevron"
                           style={{
-                            transform: activeMobileSubmenu === item.title ? 'rotate(180deg)' : 'rotate(0deg)'
+                            transform: activeMobileSubmenu === index ? 'rotate(180deg)' : 'rotate(0deg)'
                           }}
                         >
                           ▼
                         </span>
                       </button>
-                      {activeMobileSubmenu === item.title && (
-                        <div className="mobile-submenu">
-                          {item.megaMenu.columns.map((column: any, columnIndex: number) => (
+                      {activeMobileSubmenu === index && (
+                        <div className="mobile-submenu" id={`mega-menu-mobile-submenu-${index}`}>
+                          {item.megaMenu.columns.map((column: MenuColumn, columnIndex: number) => (
                             <div key={columnIndex} className="mobile-column">
                               <h4 className="mobile-column-title">
-                                {column.title}
+                                {this.text(column.title)}
+                                {this.renderWarnings(column.warnings)}
                               </h4>
-                              {column.items.map((menuItem: any, itemIndex: number) => (
-                                <a
-                                  key={itemIndex}
-                                  href={menuItem.href}
-                                  className="mobile-column-link"
-                                >
-                                  {menuItem.title}
-                                </a>
-                              ))}
+                              {this.renderFeatured(column)}
+                              {column.items.map((menuItem: MenuItem, itemIndex: number) => this.renderMobileMenuItem(menuItem, itemIndex))}
                             </div>
                           ))}
                         </div>
@@ -217,13 +821,17 @@ export class MegaMenu extends React.Component<IMegaMenuProps, IMegaMenuState> {
                   ) : (
                     <a
                       href={item.href}
-                      className="mobile-nav-link"
+                      className={index === activeSection ? 'mobile-nav-link is-active-section' : 'mobile-nav-link'}
+                      aria-current={isCurrentNavigationItem(index) ? 'page' : undefined}
+                      onClick={() => this.trackLinkClick(item.title, item.href, { menu: item.title, position: index + 1 })}
                     >
                       {item.title}
+                      {this.renderWarnings(item.warnings)}
                     </a>
                   )}
                 </div>
               ))}
+              {this.renderMobileDrillPanel()}
             </div>
           </div>
         )}
@@ -0,0 +1,435 @@
+import * as React from 'react';
+import * as strings from 'MegaMenuApplicationCustomizerStrings';
+import {
+  MegaMenuService,
+  MenuData,
+  MenuItem,
+  NavigationItem,
+  MenuColumn,
+  LocalizedText,
+  IEditableMenuFile,
+  MenuFileConflictError
+} from '../services/MegaMenuService';
+import { resolveLocalizedText } from '../services/LocalizedText';
+import {
+  MenuListPath,
+  MenuEntry,
+  MenuEntryKind,
+  getListKind,
+  getList,
+  createEntry,
+  updateEntry,
+  insertEntry,
+  removeEntry,
+  moveEntry
+} from '../services/MenuEditing';
+import { getKey } from './MenuKeyboard';
+import { MenuVersionHistory } from './MenuVersionHistory';
+
+export interface IMenuEditorProps {
+  service: MegaMenuService;
+  cultureName: string;
+  /** Shows the draft in the menu while it is edited */
+  onPreview: (draft: MenuData) => void;
+  /** Called when the panel is closed; `saved` tells whether the menu file was changed */
+  onClose: (saved: boolean) => void;
+}
+
+interface IDragSource {
+  listPath: MenuListPath;
+  index: number;
+}
+
+/** A column links can be moved to */
+interface IMoveTarget {
+  label: string;
+  listPath: MenuListPath;
+}
+
+export interface IMenuEditorState {
+  file: IEditableMenuFile | null;
+  draft: MenuData | null;
+  isDirty: boolean;
+  isSaving: boolean;
+  hasSaved: boolean;
+  message: { isError: boolean; text: string } | null;
+  isConflict: boolean;
+  dragSource: IDragSource | null;
+  /** Shows the version history of the menu file instead of the menu */
+  isHistoryOpen: boolean;
+}
+
+const ADD_LABELS: { [kind: string]: () => string } = {
+  navigation: () => strings.AddNavigationItemLabel,
+  column: () => strings.AddColumnLabel,
+  link: () => strings.AddLinkLabel
+};
+
+/**
+ * A panel for site owners to edit the menu file of the library. Entries are reordered with drag and
+ * drop or the move buttons, every change is previewed in the menu, and saving writes the file back
+ * unless someone else changed it in the meantime.
+ */
+export class MenuEditor extends React.Component<IMenuEditorProps, IMenuEditorState> {
+  private panel: HTMLDivElement | null = null;
+
+  constructor(props: IMenuEditorProps) {
+    super(props);
+    this.state = {
+      file: null,
+      draft: null,
+      isDirty: false,
+      isSaving: false,
+      hasSaved: false,
+      message: null,
+      isConflict: false,
+      dragSource: null,
+      isHistoryOpen: false
+    };
+  }
+
+  public componentDidMount(): void {
+    this.load();
+    if (this.panel) {
+      this.panel.focus();
+    }
+  }
+
+  private load(): void {
+    this.setState({ file: null, draft: null, message: null, isConflict: false });
+
+    this.props.service.getEditableMenuFile()
+      .then(file => {
+        this.setState({ file, draft: file.data, isDirty: false });
+        this.props.onPreview(file.data);
+      })
+      .catch(error => {
+        console.error('Error loading the menu file for editing:', error);
+        this.setState({ message: { isError: true, text: `${strings.LoadErrorMessage} ${error.message}` } });
+      });
+  }
+
+  private change(draft: MenuData): void {
+    this.setState({ draft, isDirty: true, message: null });
+    this.props.onPreview(draft);
+  }
+
+  private handleSave = (): void => {
+    const { file, draft } = this.state;
+    if (!file || !draft) {
+      return;
+    }
+
+    this.setState({ isSaving: true, message: null });
+    this.props.service.saveMenuFile(draft, file.etag)
+      .then(saved => {
+        this.setState({
+          file: saved,
+          draft: saved.data,
+          isDirty: false,
+          isSaving: false,
+          hasSaved: true,
+          message: { isError: false, text: strings.SavedMessage }
+        });
+      })
+      .catch(error => {
+        console.error('Error saving the menu file:', error);
+        const isConflict = error instanceof MenuFileConflictError;
+        this.setState({
+          isSaving: false,
+          isConflict,
+          message: { isError: true, text: isConflict ? strings.SaveConflictMessage : `${strings.SaveErrorMessage} ${error.message}` }
+        });
+      });
+  }
+
+  private handleReload = (): void => {
+    if (!this.state.isDirty || window.confirm(strings.UnsavedChangesMessage)) {
+      this.load();
+    }
+  }
+
+  private handleRestored = (): void => {
+    this.setState({ isHistoryOpen: false, hasSaved: true, isDirty: false });
+    this.load();
+  }
+
+  private handleClose = (): void => {
+    if (!this.state.isDirty || window.confirm(strings.UnsavedChangesMessage)) {
+      this.props.onClose(this.state.hasSaved);
+    }
+  }
+
+  private handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>): void => {
+    if (getKey(event) === 'Escape') {
+      this.handleClose();
+      event.preventDefault();
+    }
+  }
+
+  private handleDragStart(event: React.DragEvent<HTMLElement>, listPath: MenuListPath, index: number): void {
+    event.stopPropagation();
+    event.dataTransfer.effectAllowed = 'move';
+    // Firefox only starts dragging when data is set
+    event.dataTransfer.setData('text', '');
+    this.setState({ dragSource: { listPath, index } });
+  }
+
+  private handleDragOver(event: React.DragEvent<HTMLElement>, listPath: MenuListPath): void {
+    const { dragSource } = this.state;
+    // Entries can only be dropped among entries of their kind; other lists let the event bubble up
+    if (dragSource && getListKind(dragSource.listPath) === getListKind(listPath)) {
+      event.preventDefault();
+      event.stopPropagation();
+      event.dataTransfer.dropEffect = 'move';
+    }
+  }
+
+  private handleDrop(event: React.DragEvent<HTMLElement>, listPath: MenuListPath, index: number): void {
+    const { dragSource, draft } = this.state;
+    if (!dragSource || !draft || getListKind(dragSource.listPath) !== getListKind(listPath)) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    this.setState({ dragSource: null });
+    this.change(moveEntry(draft, dragSource.listPath, dragSource.index, listPath, index));
+  }
+
+  private text(value: LocalizedText | undefined): string {
+    return resolveLocalizedText(value, this.props.cultureName);
+  }
+
+  private getMoveTargets(): IMoveTarget[] {
+    const targets: IMoveTarget[] = [];
+
+    this.state.draft.navigation.forEach((item, navigationIndex) => {
+      if (item.megaMenu) {
+        item.megaMenu.columns.forEach((column, columnIndex) => {
+          const columnTitle = this.text(column.title);
+          targets.push({
+            label: columnTitle ? `${this.text(item.title)} › ${columnTitle}` : this.text(item.title),
+            listPath: ['navigation', navigationIndex, 'megaMenu', 'columns', columnIndex, 'items']
+          });
+        });
+      }
+    });
+
+    return targets;
+  }
+
+  private renderTitleInputs(title: LocalizedText, listPath: MenuListPath, index: number): React.ReactElement<any> {
+    const { draft } = this.state;
+
+    if (typeof title === 'string') {
+      return (
+        <input
+          className="menu-editor-input menu-editor-title"
+          value={title}
+          aria-label={strings.TitleLabel}
+          placeholder={strings.TitleLabel}
+          onChange={event => this.change(updateEntry(draft, listPath, index, { title: event.currentTarget.value }))}
+        />
+      );
+    }
+
+    // Translated titles get an input per culture
+    return (
+      <span className="menu-editor-translations">
+        {Object.keys(title).map(cultureName => (
+          <label key={cultureName} className="menu-editor-translation">
+            <span className="menu-editor-culture">{cultureName}</span>
+            <input
+              className="menu-editor-input menu-editor-title"
+              value={title[cultureName]}
+              aria-label={`${strings.TitleLabel} (${cultureName})`}
+              onChange={event => this.change(updateEntry(draft, listPath, index, {
+                title: { ...title, [cultureName]: event.currentTarget.value }
+              }))}
+            />
+          </label>
+        ))}
+      </span>
+    );
+  }
+
+  private renderEntry(entry: MenuEntry, listPath: MenuListPath, index: number, count: number, moveTargets: IMoveTarget[]): React.ReactElement<any> {
+    const { draft, dragSource } = this.state;
+    const kind = getListKind(listPath);
+    const path = listPath.concat(index);
+    const isDragged = !!dragSource && dragSource.index === index && dragSource.listPath.join('/') === listPath.join('/');
+
+    let nested: React.ReactElement<any> | null = null;
+    if (kind === 'navigation') {
+      const megaMenu = (entry as NavigationItem).megaMenu;
+      nested = this.renderList(path.concat('megaMenu', 'columns'), megaMenu ? megaMenu.columns : [], moveTargets);
+    } else if (kind === 'column') {
+      nested = this.renderList(path.concat('items'), (entry as MenuColumn).items, moveTargets);
+    } else if ((entry as MenuItem).children && (entry as MenuItem).children.length > 0) {
+      nested = this.renderList(path.concat('children'), (entry as MenuItem).children, moveTargets);
+    }
+
+    return (
+      <li
+        key={index}
+        className={isDragged ? `menu-editor-entry menu-editor-${kind} is-dragged` : `menu-editor-entry menu-editor-${kind}`}
+        onDragOver={event => this.handleDragOver(event, listPath)}
+        onDrop={event => this.handleDrop(event, listPath, index)}
+      >
+        <div className="menu-editor-row">
+          <span
+            className="menu-editor-handle"
+            draggable={true}
+            title={strings.DragLabel}
+            onDragStart={event => this.handleDragStart(event, listPath, index)}
+            onDragEnd={() => this.setState({ dragSource: null })}
+          >
+            ⠿
+          </span>
+          {this.renderTitleInputs(entry.title, listPath, index)}
+          {kind !== 'column' && (
+            <input
+              className="menu-editor-input menu-editor-href"
+              value={(entry as MenuItem).href}
+              aria-label={strings.UrlLabel}
+              placeholder={strings.UrlLabel}
+              onChange={event => this.change(updateEntry(draft, listPath, index, { href: event.currentTarget.value }))}
+            />
+          )}
+          <button
+            className="menu-editor-button"
+            title={strings.MoveUpLabel}
+            aria-label={strings.MoveUpLabel}
+            disabled={index === 0}
+            onClick={() => this.change(moveEntry(draft, listPath, index, listPath, index - 1))}
+          >
+            ↑
+          </button>
+          <button
+            className="menu-editor-button"
+            title={strings.MoveDownLabel}
+            aria-label={strings.MoveDownLabel}
+            disabled={index === count - 1}
+            onClick={() => this.change(moveEntry(draft, listPath, index, listPath, index + 2))}
+          >
+            ↓
+          </button>
+          {kind === 'link' && moveTargets.length > 1 && (
+            <select
+              className="menu-editor-move"
+              aria-label={strings.MoveToLabel}
+              value=""
+              onChange={event => {
+                const target = moveTargets[parseInt(event.currentTarget.value, 10)];
+                this.change(moveEntry(draft, listPath, index, target.listPath, getList(draft, target.listPath).length));
+              }}
+            >
+              <option value="" disabled>{strings.MoveToLabel}</option>
+              {moveTargets.map((target, targetIndex) => (
+                <option key={targetIndex} value={String(targetIndex)}>{target.label}</option>
+              ))}
+            </select>
+          )}
+          {kind === 'link' && !nested && (
+            <button
+              className="menu-editor-button"
+              title={strings.AddSubmenuLabel}
+              aria-label={strings.AddSubmenuLabel}
+              onClick={() => this.change(insertEntry(draft, path.concat('children'), 0, createEntry('link', strings.NewEntryTitle)))}
+            >
+              +
+            </button>
+          )}
+          <button
+            className="menu-editor-button menu-editor-delete"
+            title={strings.DeleteLabel}
+            aria-label={strings.DeleteLabel}
+            onClick={() => this.change(removeEntry(draft, listPath, index))}
+          >
+            ✕
+          </button>
+        </div>
+        {nested}
+      </li>
+    );
+  }
+
+  private renderList(listPath: MenuListPath, entries: MenuEntry[], moveTargets: IMoveTarget[]): React.ReactElement<any> {
+    const { draft } = this.state;
+    const kind: MenuEntryKind = getListKind(listPath);
+
+    return (
+      <ul
+        className="menu-editor-list"
+        onDragOver={event => this.handleDragOver(event, listPath)}
+        onDrop={event => this.handleDrop(event, listPath, entries.length)}
+      >
+        {entries.map((entry, index) => this.renderEntry(entry, listPath, index, entries.length, moveTargets))}
+        <li className="menu-editor-add">
+          <button
+            className="menu-editor-add-button"
+            onClick={() => this.change(insertEntry(draft, listPath, entries.length, createEntry(kind, strings.NewEntryTitle)))}
+          >
+            + {ADD_LABELS[kind]()}
+          </button>
+        </li>
+      </ul>
+    );
+  }
+
+  public render(): React.ReactElement<IMenuEditorProps> {
+    const { draft, isDirty, isSaving, message, isConflict, isHistoryOpen } = this.state;
+
+    return (
+      <div
+        className="menu-editor"
+        role="dialog"
+        aria-label={strings.EditMenuLabel}
+        tabIndex={-1}
+        ref={element => this.panel = element}
+        onKeyDown={this.handleKeyDown}
+      >
+        <div className="menu-editor-header">
+          <h2 className="menu-editor-heading">{strings.EditMenuLabel}</h2>
+          <button
+            className="menu-editor-button"
+            title={strings.VersionHistoryLabel}
+            aria-label={strings.VersionHistoryLabel}
+            aria-pressed={isHistoryOpen}
+            onClick={() => this.setState({ isHistoryOpen: !isHistoryOpen })}
+          >
+            🕘
+          </button>
+          <button className="menu-editor-save" disabled={!draft || !isDirty || isSaving} onClick={this.handleSave}>
+            {isSaving ? strings.SavingLabel : strings.SaveLabel}
+          </button>
+          <button className="menu-editor-button" title={strings.CloseLabel} aria-label={strings.CloseLabel} onClick={this.handleClose}>
+            ✕
+          </button>
+        </div>
+        {message && (
+          <div className={message.isError ? 'menu-editor-message is-error' : 'menu-editor-message'} role="alert">
+            {message.text}
+            {isConflict && (
+              <button className="menu-editor-add-button" onClick={this.handleReload}>{strings.ReloadLabel}</button>
+            )}
+          </div>
+        )}
+        <div className="menu-editor-body">
+          {isHistoryOpen
+            ? (
+              <MenuVersionHistory
+                service={this.props.service}
+                cultureName={this.props.cultureName}
+                onRestored={this.handleRestored}
+                onBack={() => this.setState({ isHistoryOpen: false })}
+              />
+            )
+            : draft
+              ? this.renderList(['navigation'], draft.navigation, this.getMoveTargets())
+              : !message && <p>{strings.LoadingMessage}</p>}
+        </div>
+      </div>
+    );
+  }
+}
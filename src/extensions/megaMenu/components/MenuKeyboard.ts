@@ -0,0 +1,108 @@
+import * as React from 'react';
+
+/**
+ * Keyboard helpers shared by the mega menu renderers.
+ */
+
+// Internet Explorer and old Edge report non-standard key names
+const LEGACY_KEYS: { [key: string]: string } = {
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+  Esc: 'Escape',
+  Spacebar: ' '
+};
+
+export type FocusOrientation = 'horizontal' | 'vertical';
+
+export function getKey(event: KeyboardEvent | React.KeyboardEvent<any>): string {
+  return LEGACY_KEYS[event.key] || event.key;
+}
+
+/** Returns the visible links, buttons and text boxes inside an element, in document order */
+export function getFocusableElements(root: Element): HTMLElement[] {
+  const elements = root.querySelectorAll(
+    'a[href]:not([tabindex="-1"]), button:not([disabled]), input:not([disabled]), [tabindex="0"]');
+  const result: HTMLElement[] = [];
+
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i] as HTMLElement;
+    if (element.offsetWidth > 0 || element.offsetHeight > 0 || element.getClientRects().length > 0) {
+      result.push(element);
+    }
+  }
+  return result;
+}
+
+/**
+ * Moves focus within a group of elements for arrow, Home and End keys.
+ * Arrow keys wrap around. Returns whether the key was handled.
+ */
+export function moveFocus(elements: HTMLElement[], current: Element, key: string, orientation: FocusOrientation): boolean {
+  if (elements.length === 0) {
+    return false;
+  }
+
+  const previousKey = orientation === 'horizontal' ? 'ArrowLeft' : 'ArrowUp';
+  const nextKey = orientation === 'horizontal' ? 'ArrowRight' : 'ArrowDown';
+  const index = elements.indexOf(current as HTMLElement);
+  let target: number;
+
+  switch (key) {
+    case previousKey:
+      target = index <= 0 ? elements.length - 1 : index - 1;
+      break;
+    case nextKey:
+      target = index === -1 || index === elements.length - 1 ? 0 : index + 1;
+      break;
+    case 'Home':
+      target = 0;
+      break;
+    case 'End':
+      target = elements.length - 1;
+      break;
+    default:
+      return false;
+  }
+
+  elements[target].focus();
+  return true;
+}
+
+/**
+ * Handles arrow, Home and End keys inside a mega menu dropdown. Up and Down move between the
+ * links of the current level (the dropdown or one flyout), Right enters a flyout and Left leaves it.
+ * Returns whether the key was handled.
+ */
+export function moveFocusInDropdown(dropdown: HTMLElement, current: HTMLElement, key: string): boolean {
+  const list = current.parentElement.parentElement as HTMLElement;
+  const inFlyout = list.classList.contains('flyout');
+
+  if (key === 'ArrowLeft' && inFlyout) {
+    // Back to the link that opened the flyout
+    (list.parentElement.firstElementChild as HTMLElement).focus();
+    return true;
+  }
+
+  if (key === 'ArrowRight' && current.parentElement.classList.contains('has-flyout')) {
+    const flyoutLinks = getFocusableElements(current.nextElementSibling);
+    if (flyoutLinks.length > 0) {
+      flyoutLinks[0].focus();
+    }
+    return true;
+  }
+
+  const levelLinks = getFocusableElements(inFlyout ? list : dropdown)
+    .filter(link => link.parentElement.parentElement === list || !isInFlyout(link, dropdown));
+  return moveFocus(levelLinks, current, key, 'vertical');
+}
+
+function isInFlyout(element: HTMLElement, root: HTMLElement): boolean {
+  for (let parent = element.parentElement; parent && parent !== root; parent = parent.parentElement) {
+    if (parent.classList.contains('flyout')) {
+      return true;
+    }
+  }
+  return false;
+}
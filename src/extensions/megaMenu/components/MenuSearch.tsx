@@ -0,0 +1,193 @@
+import * as React from 'react';
+import * as strings from 'MegaMenuApplicationCustomizerStrings';
+import { MenuData } from '../services/MegaMenuService';
+import { MenuSearchIndex, IMenuSearchResult } from '../services/MenuSearchIndex';
+import { MenuTelemetry } from '../services/MenuTelemetry';
+import { getKey } from './MenuKeyboard';
+
+export interface IMenuSearchProps {
+  menuData: MenuData;
+  cultureName: string;
+  isUrlAllowed: (url: string) => boolean;
+  /** Distinguishes the element IDs of the desktop and mobile search boxes */
+  idPrefix: string;
+  className?: string;
+  telemetry?: MenuTelemetry;
+}
+
+export interface IMenuSearchState {
+  query: string;
+  results: IMenuSearchResult[];
+  /** Index of the highlighted result, or -1 */
+  activeIndex: number;
+}
+
+/**
+ * A combobox that searches every link of the menu. Focus stays in the input while the arrow keys
+ * move through the results, following the ARIA combobox pattern with `aria-activedescendant`.
+ */
+export class MenuSearch extends React.Component<IMenuSearchProps, IMenuSearchState> {
+  private index: MenuSearchIndex | null = null;
+  private indexedData: MenuData | null = null;
+  private indexedCulture: string | null = null;
+  /** Delays recording a query until the user stops typing */
+  private trackTimeout: number | null = null;
+
+  constructor(props: IMenuSearchProps) {
+    super(props);
+    this.state = {
+      query: '',
+      results: [],
+      activeIndex: -1
+    };
+  }
+
+  private getIndex(): MenuSearchIndex {
+    const { menuData, cultureName, isUrlAllowed } = this.props;
+    if (!this.index || this.indexedData !== menuData || this.indexedCulture !== cultureName) {
+      this.index = new MenuSearchIndex(menuData, cultureName, isUrlAllowed);
+      this.indexedData = menuData;
+      this.indexedCulture = cultureName;
+    }
+    return this.index;
+  }
+
+  private handleChange = (event: React.FormEvent<HTMLInputElement>): void => {
+    const query = event.currentTarget.value;
+    const results = this.getIndex().search(query);
+    this.setState({ query, results, activeIndex: results.length > 0 ? 0 : -1 });
+
+    this.cancelTrackSearch();
+    if (this.props.telemetry && query.trim()) {
+      this.trackTimeout = window.setTimeout(() => this.trackSearch(), 1000);
+    }
+  }
+
+  private trackSearch(): void {
+    this.cancelTrackSearch();
+    const { query, results } = this.state;
+    if (this.props.telemetry && query.trim()) {
+      this.props.telemetry.track({
+        type: results.length > 0 ? 'search' : 'searchNoResults',
+        query: query.trim(),
+        resultCount: results.length
+      });
+    }
+  }
+
+  private cancelTrackSearch(): void {
+    if (this.trackTimeout) {
+      clearTimeout(this.trackTimeout);
+      this.trackTimeout = null;
+    }
+  }
+
+  private trackResultClick(index: number): void {
+    if (!this.props.telemetry) {
+      return;
+    }
+    // Record the query the result was found with before the click
+    if (this.trackTimeout) {
+      this.trackSearch();
+    }
+    const result = this.state.results[index];
+    this.props.telemetry.track({
+      type: 'linkClick',
+      column: 'Search',
+      title: result.title,
+      href: result.href,
+      position: index + 1,
+      query: this.state.query.trim()
+    });
+  }
+
+  private handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>): void => {
+    const key = getKey(event);
+    const { query, results, activeIndex } = this.state;
+
+    if (key === 'Tab' || key === 'Escape' && !query) {
+      // Let the menu move focus on or close
+      return;
+    }
+    // Keep the menu's own arrow key and Escape handling out of the text box
+    event.stopPropagation();
+
+    if (key === 'ArrowDown' && results.length > 0) {
+      this.setState({ activeIndex: (activeIndex + 1) % results.length });
+      event.preventDefault();
+    } else if (key === 'ArrowUp' && results.length > 0) {
+      this.setState({ activeIndex: activeIndex <= 0 ? results.length - 1 : activeIndex - 1 });
+      event.preventDefault();
+    } else if (key === 'Enter' && activeIndex !== -1) {
+      this.trackResultClick(activeIndex);
+      window.location.href = results[activeIndex].href;
+      event.preventDefault();
+    } else if (key === 'Escape') {
+      this.cancelTrackSearch();
+      this.setState({ query: '', results: [], activeIndex: -1 });
+      event.preventDefault();
+    }
+  }
+
+  public componentWillUnmount(): void {
+    // A query typed just before the search box closed still counts
+    if (this.trackTimeout) {
+      this.trackSearch();
+    }
+  }
+
+  private getResultId(index: number): string {
+    return `${this.props.idPrefix}-result-${index}`;
+  }
+
+  public render(): React.ReactElement<IMenuSearchProps> {
+    const { idPrefix, className } = this.props;
+    const { query, results, activeIndex } = this.state;
+    const listId = `${idPrefix}-results`;
+    const isOpen = !!query.trim();
+
+    return (
+      <div className={`menu-search ${className || ''}`} role="search">
+        <input
+          type="search"
+          className="menu-search-input"
+          value={query}
+          placeholder={strings.SearchPlaceholder}
+          aria-label={strings.SearchLabel}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-activedescendant={activeIndex !== -1 ? this.getResultId(activeIndex) : undefined}
+          autoComplete="off"
+          onChange={this.handleChange}
+          onKeyDown={this.handleKeyDown}
+        />
+        {isOpen && (
+          <ul className="menu-search-results" id={listId} role="listbox" aria-label={strings.SearchLabel}>
+            {results.length === 0 && (
+              <li className="menu-search-empty" role="presentation">{strings.SearchNoResults}</li>
+            )}
+            {results.map((result, index) => (
+              <li
+                key={`${result.href}-${index}`}
+                id={this.getResultId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={index === activeIndex ? 'menu-search-result is-active' : 'menu-search-result'}
+                onMouseEnter={() => this.setState({ activeIndex: index })}
+              >
+                <a href={result.href} tabIndex={-1} onClick={() => this.trackResultClick(index)}>
+                  {result.path.length > 0 && (
+                    <span className="menu-search-result-path">{result.path.join(' › ')} › </span>
+                  )}
+                  <span className="menu-search-result-title">{result.title}</span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { MenuTheme } from '../services/MegaMenuService';
+
+export type MenuThemeKey = keyof MenuTheme;
+
+/** Theme properties that hold a CSS value, which is every property but the color scheme */
+export type MenuThemeValueKey = 'primaryColor' | 'primaryDarkColor' | 'primaryDarkerColor' | 'primaryLightColor' |
+  'primaryLighterColor' | 'accentColor' | 'textOnPrimaryColor' | 'surfaceColor' | 'textColor' | 'mutedTextColor' |
+  'borderColor' | 'linkColor' | 'fontFamily' | 'headerHeight' | 'maxWidth';
+
+/** The theme state modern SharePoint pages keep on the window */
+interface ISharePointThemeState {
+  /** Colors of the site theme by palette slot, e.g. themePrimary */
+  theme?: { [slot: string]: string };
+}
+
+interface IThemedWindow extends Window {
+  __themeState__?: ISharePointThemeState;
+  /** Missing in Internet Explorer */
+  CSS?: { supports?: (property: string, value: string) => boolean };
+}
+
+/** The colors the menu was designed with, used where neither the site theme nor an override sets a value */
+const DEFAULT_THEME: MenuTheme = {
+  primaryColor: '#b91c1c',
+  primaryDarkColor: '#991b1b',
+  primaryDarkerColor: '#7f1d1d',
+  primaryLightColor: '#fecaca',
+  primaryLighterColor: '#fef2f2',
+  accentColor: '#dc2626',
+  textOnPrimaryColor: '#ffffff',
+  surfaceColor: '#ffffff',
+  textColor: '#111827',
+  mutedTextColor: '#6b7280',
+  borderColor: '#e5e7eb',
+  fontFamily: 'inherit',
+  headerHeight: '64px',
+  maxWidth: '1280px'
+};
+
+/** Replaces the light dropdown colors in the dark color scheme */
+const DARK_THEME: MenuTheme = {
+  surfaceColor: '#1f2937',
+  textColor: '#f9fafb',
+  mutedTextColor: '#d1d5db',
+  borderColor: '#374151'
+};
+
+/** SharePoint theme palette slots that provide the defaults */
+const SITE_THEME_SLOTS: { [key in MenuThemeValueKey]?: string } = {
+  primaryColor: 'themePrimary',
+  primaryDarkColor: 'themeDarkAlt',
+  primaryDarkerColor: 'themeDark',
+  primaryLightColor: 'themeLight',
+  primaryLighterColor: 'themeLighterAlt',
+  accentColor: 'themeSecondary',
+  surfaceColor: 'white',
+  textColor: 'neutralPrimary',
+  mutedTextColor: 'neutralSecondary',
+  borderColor: 'neutralLight'
+};
+
+const VARIABLES: { [key in MenuThemeValueKey]: string } = {
+  primaryColor: '--mega-menu-primary',
+  primaryDarkColor: '--mega-menu-primary-dark',
+  primaryDarkerColor: '--mega-menu-primary-darker',
+  primaryLightColor: '--mega-menu-primary-light',
+  primaryLighterColor: '--mega-menu-primary-lighter',
+  accentColor: '--mega-menu-accent',
+  textOnPrimaryColor: '--mega-menu-text-on-primary',
+  surfaceColor: '--mega-menu-surface',
+  textColor: '--mega-menu-text',
+  mutedTextColor: '--mega-menu-muted-text',
+  borderColor: '--mega-menu-border',
+  linkColor: '--mega-menu-link',
+  fontFamily: '--mega-menu-font-family',
+  headerHeight: '--mega-menu-header-height',
+  maxWidth: '--mega-menu-max-width'
+};
+
+export interface IThemeCss {
+  /** A rule defining the CSS custom properties, empty where they are not supported */
+  variables: string;
+  /** How stylesheet rules refer to a theme value */
+  value: (key: MenuThemeValueKey) => string;
+}
+
+/** Reads the current SharePoint theme palette, which modern pages expose on window.__themeState__ */
+export function getSiteTheme(): MenuTheme {
+  const themeState = (window as IThemedWindow).__themeState__;
+  const palette = themeState && themeState.theme || {};
+  const theme: MenuTheme = {};
+
+  (Object.keys(SITE_THEME_SLOTS) as MenuThemeValueKey[]).forEach(key => {
+    const color = palette[SITE_THEME_SLOTS[key]];
+    if (color) {
+      theme[key] = color;
+    }
+  });
+  return theme;
+}
+
+/**
+ * Combines the site theme with overrides, later overrides taking precedence, on top of the default colors.
+ * The dark color scheme replaces the dropdown colors of the defaults and the site theme, but not overrides.
+ */
+export function resolveMenuTheme(siteTheme: MenuTheme, ...overrideThemes: MenuTheme[]): MenuTheme {
+  const overrides = mergeThemes(overrideThemes);
+  const dark = overrides.colorScheme === 'dark' || overrides.colorScheme === 'auto' && prefersDarkColorScheme();
+
+  const resolved: MenuTheme = { ...DEFAULT_THEME, ...mergeThemes([siteTheme]), ...(dark ? DARK_THEME : {}), ...overrides };
+  if (!overrides.linkColor) {
+    // Links sit on the dropdown surface, where the light shade reads better in the dark scheme
+    resolved.linkColor = dark ? resolved.primaryLightColor : resolved.primaryColor;
+  }
+  return resolved;
+}
+
+/**
+ * Turns a resolved theme into CSS. Browsers with custom property support get `var()` references,
+ * so the theme can be changed without rewriting the stylesheet; Internet Explorer gets the values.
+ */
+export function getThemeCss(theme: MenuTheme): IThemeCss {
+  if (!supportsCustomProperties()) {
+    return { variables: '', value: key => String(theme[key]) };
+  }
+
+  const declarations = (Object.keys(VARIABLES) as MenuThemeValueKey[])
+    .map(key => `${VARIABLES[key]}: ${theme[key]};`)
+    .join(' ');
+  return {
+    variables: `.mega-menu { ${declarations} }`,
+    value: key => `var(${VARIABLES[key]})`
+  };
+}
+
+function mergeThemes(themes: MenuTheme[]): MenuTheme {
+  const merged: MenuTheme = {};
+
+  themes.forEach(theme => {
+    (Object.keys(theme || {}) as MenuThemeKey[]).forEach(key => {
+      const value = theme[key];
+      if (value === undefined || value === null || value === '') {
+        return;
+      }
+      if (VARIABLES.hasOwnProperty(key) && !isSafeCssValue(value)) {
+        console.warn(`Ignoring unsafe mega menu theme value for ${key}:`, value);
+        return;
+      }
+      setThemeValue(merged, key, value);
+    });
+  });
+
+  return merged;
+}
+
+function setThemeValue<K extends MenuThemeKey>(theme: MenuTheme, key: K, value: MenuTheme[K]): void {
+  theme[key] = value;
+}
+
+/** Theme values end up in a stylesheet, so they must not be able to close the declaration */
+function isSafeCssValue(value: any): boolean {
+  return typeof value === 'string' && !/[;{}<>\\]|\/\*/.test(value);
+}
+
+function supportsCustomProperties(): boolean {
+  const css = (window as IThemedWindow).CSS;
+  return !!css && typeof css.supports === 'function' && css.supports('--mega-menu-test', '0');
+}
+
+function prefersDarkColorScheme(): boolean {
+  return typeof window.matchMedia === 'function' && window.matchMedia('(prefers-color-scheme: dark)').matches;
+}
@@ -0,0 +1,169 @@
+import * as React from 'react';
+import * as strings from 'MegaMenuApplicationCustomizerStrings';
+import { MegaMenuService, IMenuFileVersion } from '../services/MegaMenuService';
+import { diffMenuData, IMenuDiffChange } from '../services/MenuDiff';
+
+export interface IMenuVersionHistoryProps {
+  service: MegaMenuService;
+  cultureName: string;
+  /** Called after a version was restored */
+  onRestored: () => void;
+  onBack: () => void;
+}
+
+export interface IMenuVersionHistoryState {
+  versions: IMenuFileVersion[] | null;
+  error: string | null;
+  /** Label of the version whose changes are shown */
+  comparedLabel: string | null;
+  changes: IMenuDiffChange[] | null;
+  isRestoring: boolean;
+}
+
+const CHANGE_LABELS: { [type: string]: () => string } = {
+  added: () => strings.DiffAddedLabel,
+  removed: () => strings.DiffRemovedLabel,
+  moved: () => strings.DiffMovedLabel,
+  renamed: () => strings.DiffRenamedLabel
+};
+
+/**
+ * Lists the versions of the menu file. Each earlier version shows what changed in the menu since
+ * it was saved, and can be restored.
+ */
+export class MenuVersionHistory extends React.Component<IMenuVersionHistoryProps, IMenuVersionHistoryState> {
+  constructor(props: IMenuVersionHistoryProps) {
+    super(props);
+    this.state = {
+      versions: null,
+      error: null,
+      comparedLabel: null,
+      changes: null,
+      isRestoring: false
+    };
+  }
+
+  public componentDidMount(): void {
+    this.props.service.getMenuFileVersions()
+      .then(versions => this.setState({ versions }))
+      .catch(error => {
+        console.error('Error loading the menu file versions:', error);
+        this.setState({ error: `${strings.VersionsErrorMessage} ${error.message}` });
+      });
+  }
+
+  private compare(version: IMenuFileVersion): void {
+    if (this.state.comparedLabel === version.label) {
+      this.setState({ comparedLabel: null, changes: null });
+      return;
+    }
+
+    const current = this.state.versions[0];
+    this.setState({ comparedLabel: version.label, changes: null, error: null });
+
+    Promise.all([
+      this.props.service.getMenuFileVersionData(version),
+      this.props.service.getMenuFileVersionData(current)
+    ])
+      .then(([before, after]) => {
+        if (this.state.comparedLabel === version.label) {
+          this.setState({ changes: diffMenuData(before, after, this.props.cultureName) });
+        }
+      })
+      .catch(error => {
+        console.error('Error comparing menu file versions:', error);
+        this.setState({ comparedLabel: null, error: `${strings.DiffErrorMessage} ${error.message}` });
+      });
+  }
+
+  private restore(version: IMenuFileVersion): void {
+    if (!window.confirm(strings.RestoreConfirmMessage.replace('{0}', version.label))) {
+      return;
+    }
+
+    this.setState({ isRestoring: true, error: null });
+    this.props.service.restoreMenuFileVersion(version)
+      .then(() => this.props.onRestored())
+      .catch(error => {
+        console.error('Error restoring a menu file version:', error);
+        this.setState({ isRestoring: false, error: `${strings.RestoreErrorMessage} ${error.message}` });
+      });
+  }
+
+  private renderChange(change: IMenuDiffChange, index: number): React.ReactElement<any> {
+    let detail: string;
+    switch (change.type) {
+      case 'moved':
+        detail = `${change.oldPath.join(' › ')} → ${change.path.join(' › ')}`;
+        break;
+      case 'renamed':
+        detail = `${change.oldTitle} → ${change.title}`;
+        break;
+      default:
+        detail = change.path.join(' › ');
+    }
+
+    return (
+      <li key={index} className={`menu-diff-change menu-diff-${change.type}`}>
+        <span className="menu-diff-type">{CHANGE_LABELS[change.type]()}</span>
+        {' '}
+        <span className="menu-diff-title" title={change.href}>{change.title}</span>
+        {detail && <span className="menu-diff-detail">{detail}</span>}
+      </li>
+    );
+  }
+
+  private renderVersion(version: IMenuFileVersion): React.ReactElement<any> {
+    const { comparedLabel, changes, isRestoring } = this.state;
+    const isCompared = comparedLabel === version.label;
+
+    return (
+      <li key={version.label} className="menu-version">
+        <div className="menu-version-row">
+          <span className="menu-version-label">
+            {version.label}
+            {version.isCurrent && ` (${strings.CurrentVersionLabel})`}
+          </span>
+          <span className="menu-version-info">
+            {new Date(version.created).toLocaleString()} · {version.author}
+          </span>
+        </div>
+        {version.comment && <div className="menu-version-comment">{version.comment}</div>}
+        {!version.isCurrent && (
+          <div className="menu-version-actions">
+            <button className="menu-editor-add-button" aria-expanded={isCompared} onClick={() => this.compare(version)}>
+              {strings.CompareLabel}
+            </button>
+            <button className="menu-editor-add-button" disabled={isRestoring} onClick={() => this.restore(version)}>
+              {isRestoring ? strings.RestoringLabel : strings.RestoreLabel}
+            </button>
+          </div>
+        )}
+        {isCompared && (
+          changes
+            ? changes.length > 0
+              ? <ul className="menu-diff">{changes.map((change, index) => this.renderChange(change, index))}</ul>
+              : <p className="menu-diff-empty">{strings.NoChangesMessage}</p>
+            : <p className="menu-diff-empty">{strings.LoadingMessage}</p>
+        )}
+      </li>
+    );
+  }
+
+  public render(): React.ReactElement<IMenuVersionHistoryProps> {
+    const { versions, error } = this.state;
+
+    return (
+      <div className="menu-version-history">
+        <div className="menu-version-heading">
+          <button className="menu-editor-add-button" onClick={this.props.onBack}>← {strings.BackButtonLabel}</button>
+          <h3>{strings.VersionHistoryLabel}</h3>
+        </div>
+        {error && <div className="menu-editor-message is-error" role="alert">{error}</div>}
+        {versions
+          ? <ul className="menu-editor-list">{versions.map(version => this.renderVersion(version))}</ul>
+          : !error && <p>{strings.LoadingMessage}</p>}
+      </div>
+    );
+  }
+}
@@ -1,5 +1,52 @@
 define([], function() {
   return {
-    "Title": "MegaMenuApplicationCustomizer"
+    "Title": "MegaMenuApplicationCustomizer",
+    "NavigationLabel": "Main navigation",
+    "MenuButtonLabel": "Main menu",
+    "LoadingMessage": "Loading menu...",
+    "BackButtonLabel": "Back",
+    "SearchPlaceholder": "Search the menu",
+    "SearchLabel": "Search menu links",
+    "SearchNoResults": "No matching links",
+    "EditMenuLabel": "Edit menu",
+    "SaveLabel": "Save",
+    "SavingLabel": "Saving...",
+    "CloseLabel": "Close",
+    "ReloadLabel": "Reload",
+    "AddNavigationItemLabel": "Add menu item",
+    "AddColumnLabel": "Add column",
+    "AddLinkLabel": "Add link",
+    "AddSubmenuLabel": "Add submenu link",
+    "NewEntryTitle": "Untitled",
+    "DeleteLabel": "Delete",
+    "MoveUpLabel": "Move up",
+    "MoveDownLabel": "Move down",
+    "MoveToLabel": "Move to column",
+    "DragLabel": "Drag to move",
+    "TitleLabel": "Title",
+    "UrlLabel": "URL",
+    "SavedMessage": "The menu was saved.",
+    "SaveErrorMessage": "The menu could not be saved:",
+    "LoadErrorMessage": "The menu file could not be opened:",
+    "SaveConflictMessage": "Someone else changed the menu since you opened it. Reload to get their changes; your changes will be lost.",
+    "UnsavedChangesMessage": "Discard your unsaved changes to the menu?",
+    "VersionHistoryLabel": "Version history",
+    "CurrentVersionLabel": "current",
+    "CompareLabel": "Changes since this version",
+    "RestoreLabel": "Restore",
+    "RestoringLabel": "Restoring...",
+    "RestoreConfirmMessage": "Restore version {0}? It replaces the current menu file, and unsaved changes in the editor are lost.",
+    "RestoreErrorMessage": "The version could not be restored:",
+    "VersionsErrorMessage": "The version history could not be loaded:",
+    "DiffErrorMessage": "The versions could not be compared:",
+    "NoChangesMessage": "No changes to the menu",
+    "DiffAddedLabel": "Added",
+    "DiffRemovedLabel": "Removed",
+    "DiffMovedLabel": "Moved",
+    "DiffRenamedLabel": "Renamed",
+    "PreviewLabel": "Preview",
+    "PreviewWarningsLabel": "Warnings",
+    "ExitPreviewLabel": "Exit preview",
+    "PreviewErrorMessage": "The file could not be previewed, so the live menu is shown:"
   }
 });
\ No newline at end of file
@@ -0,0 +1,52 @@
+define([], function() {
+  return {
+    "Title": "MegaMenuApplicationCustomizer",
+    "NavigationLabel": "Navegación principal",
+    "MenuButtonLabel": "Menú principal",
+    "LoadingMessage": "Cargando menú...",
+    "BackButtonLabel": "Atrás",
+    "SearchPlaceholder": "Buscar en el menú",
+    "SearchLabel": "Buscar enlaces del menú",
+    "SearchNoResults": "No hay enlaces que coincidan",
+    "EditMenuLabel": "Editar menú",
+    "SaveLabel": "Guardar",
+    "SavingLabel": "Guardando...",
+    "CloseLabel": "Cerrar",
+    "ReloadLabel": "Volver a cargar",
+    "AddNavigationItemLabel": "Agregar elemento de menú",
+    "AddColumnLabel": "Agregar columna",
+    "AddLinkLabel": "Agregar vínculo",
+    "AddSubmenuLabel": "Agregar vínculo de submenú",
+    "NewEntryTitle": "Sin título",
+    "DeleteLabel": "Eliminar",
+    "MoveUpLabel": "Subir",
+    "MoveDownLabel": "Bajar",
+    "MoveToLabel": "Mover a la columna",
+    "DragLabel": "Arrastrar para mover",
+    "TitleLabel": "Título",
+    "UrlLabel": "URL",
+    "SavedMessage": "Se guardó el menú.",
+    "SaveErrorMessage": "No se pudo guardar el menú:",
+    "LoadErrorMessage": "No se pudo abrir el archivo del menú:",
+    "SaveConflictMessage": "Otra persona cambió el menú desde que lo abrió. Vuelva a cargarlo para obtener sus cambios; se perderán los suyos.",
+    "UnsavedChangesMessage": "¿Descartar los cambios sin guardar del menú?",
+    "VersionHistoryLabel": "Historial de versiones",
+    "CurrentVersionLabel": "actual",
+    "CompareLabel": "Cambios desde esta versión",
+    "RestoreLabel": "Restaurar",
+    "RestoringLabel": "Restaurando...",
+    "RestoreConfirmMessage": "¿Restaurar la versión {0}? Reemplaza el archivo de menú actual y se pierden los cambios sin guardar del editor.",
+    "RestoreErrorMessage": "No se pudo restaurar la versión:",
+    "VersionsErrorMessage": "No se pudo cargar el historial de versiones:",
+    "DiffErrorMessage": "No se pudieron comparar las versiones:",
+    "NoChangesMessage": "Sin cambios en el menú",
+    "DiffAddedLabel": "Agregado",
+    "DiffRemovedLabel": "Eliminado",
+    "DiffMovedLabel": "Movido",
+    "DiffRenamedLabel": "Cambiado de nombre",
+    "PreviewLabel": "Vista previa",
+    "PreviewWarningsLabel": "Advertencias",
+    "ExitPreviewLabel": "Salir de la vista previa",
+    "PreviewErrorMessage": "No se pudo obtener la vista previa del archivo, por lo que se muestra el menú publicado:"
+  }
+});
\ No newline at end of file
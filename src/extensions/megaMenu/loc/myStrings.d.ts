@@ -1,3 +1,55 @@
 declare interface IMegaMenuApplicationCustomizerStrings {
   Title: string;
-}
\ No newline at end of file
+  NavigationLabel: string;
+  MenuButtonLabel: string;
+  LoadingMessage: string;
+  BackButtonLabel: string;
+  SearchPlaceholder: string;
+  SearchLabel: string;
+  SearchNoResults: string;
+  EditMenuLabel: string;
+  SaveLabel: string;
+  SavingLabel: string;
+  CloseLabel: string;
+  ReloadLabel: string;
+  AddNavigationItemLabel: string;
+  AddColumnLabel: string;
+  AddLinkLabel: string;
+  AddSubmenuLabel: string;
+  NewEntryTitle: string;
+  DeleteLabel: string;
+  MoveUpLabel: string;
+  MoveDownLabel: string;
+  MoveToLabel: string;
+  DragLabel: string;
+  TitleLabel: string;
+  UrlLabel: string;
+  SavedMessage: string;
+  SaveErrorMessage: string;
+  LoadErrorMessage: string;
+  SaveConflictMessage: string;
+  UnsavedChangesMessage: string;
+  VersionHistoryLabel: string;
+  CurrentVersionLabel: string;
+  CompareLabel: string;
+  RestoreLabel: string;
+  RestoringLabel: string;
+  RestoreConfirmMessage: string;
+  RestoreErrorMessage: string;
+  VersionsErrorMessage: string;
+  DiffErrorMessage: string;
+  NoChangesMessage: string;
+  DiffAddedLabel: string;
+  DiffRemovedLabel: string;
+  DiffMovedLabel: string;
+  DiffRenamedLabel: string;
+  PreviewLabel: string;
+  PreviewWarningsLabel: string;
+  ExitPreviewLabel: string;
+  PreviewErrorMessage: string;
+}
+
+declare module 'MegaMenuApplicationCustomizerStrings' {
+  const strings: IMegaMenuApplicationCustomizerStrings;
+  export = strings;
+}
@@ -0,0 +1,160 @@
+import { MenuData, MenuItem, MenuLinkMatch } from './MegaMenuService';
+
+export interface IActiveMenuLink {
+  /** Index of the top-level navigation item that owns the link */
+  navigationIndex: number;
+  /** The matched link, or null when the navigation item's own link matched */
+  item: MenuItem | null;
+  /** Links with submenus above the matched link, outermost first */
+  ancestors: MenuItem[];
+  href: string;
+}
+
+interface IParsedUrl {
+  host: string;
+  /** Decoded, lower-cased path without a trailing slash; the root is "" */
+  path: string;
+  query: { [name: string]: string };
+}
+
+interface ICandidate {
+  link: IActiveMenuLink;
+  score: number;
+}
+
+/**
+ * Finds the menu link for the current page. Links match the page URL exactly or, by default, as a
+ * prefix ending at a path segment, so `/sites/hr` also matches `/sites/hr/SitePages/Benefits.aspx`.
+ * A link with a query string only matches pages with the same parameter values. The longest
+ * matching path wins, then the link with the most query parameters, then the first in the menu.
+ */
+export class ActiveLinkMatcher {
+  private page: IParsedUrl | null;
+
+  constructor(currentUrl: string) {
+    this.page = parseUrl(currentUrl, null);
+  }
+
+  public findActiveLink(menuData: MenuData): IActiveMenuLink | null {
+    let best: ICandidate | null = null;
+
+    const consider = (href: string, match: MenuLinkMatch | undefined, link: IActiveMenuLink): void => {
+      const score = this.score(href, match);
+      if (score !== -1 && (!best || score > best.score)) {
+        best = { link, score };
+      }
+    };
+
+    const visitItems = (items: MenuItem[], navigationIndex: number, ancestors: MenuItem[]): void => {
+      items.forEach(menuItem => {
+        consider(menuItem.href, menuItem.match, { navigationIndex, item: menuItem, ancestors, href: menuItem.href });
+        if (menuItem.children) {
+          visitItems(menuItem.children, navigationIndex, ancestors.concat(menuItem));
+        }
+      });
+    };
+
+    menuData.navigation.forEach((item, navigationIndex) => {
+      consider(item.href, item.match, { navigationIndex, item: null, ancestors: [], href: item.href });
+      if (item.megaMenu) {
+        item.megaMenu.columns.forEach(column => visitItems(column.items, navigationIndex, []));
+      }
+    });
+
+    return best ? (best as ICandidate).link : null;
+  }
+
+  /** How specifically a link matches the page, or -1 when it does not */
+  private score(href: string, match: MenuLinkMatch = 'prefix'): number {
+    if (!this.page || match === 'none' || !href || href.charAt(0) === '#') {
+      return -1;
+    }
+    const link = parseUrl(href, this.page);
+    if (!link || link.host !== this.page.host) {
+      return -1;
+    }
+
+    const queryNames = Object.keys(link.query);
+    for (const name of queryNames) {
+      if (this.page.query[name] !== link.query[name]) {
+        return -1;
+      }
+    }
+
+    const exact = link.path === this.page.path;
+    // A link to the root of the host would otherwise match every page
+    const prefix = match === 'prefix' && link.path !== '' && this.page.path.indexOf(`${link.path}/`) === 0;
+    return exact || prefix ? link.path.length * 100 + queryNames.length : -1;
+  }
+}
+
+/** Resolves a URL against the page like a browser would; returns null for non-web URLs such as mailto: */
+function parseUrl(url: string, base: IParsedUrl | null): IParsedUrl | null {
+  const withoutHash = url.trim().split('#')[0].replace(/\\/g, '/');
+  const queryStart = withoutHash.indexOf('?');
+  const location = queryStart === -1 ? withoutHash : withoutHash.substring(0, queryStart);
+  const query = parseQuery(queryStart === -1 ? '' : withoutHash.substring(queryStart + 1));
+
+  let host: string;
+  let path: string;
+  const schemeMatch = /^([a-z][a-z0-9+.\-]*):/i.exec(location);
+  if (schemeMatch || location.substring(0, 2) === '//') {
+    if (schemeMatch && !/^https?$/i.test(schemeMatch[1])) {
+      return null;
+    }
+    const rest = location.replace(/^[a-z][a-z0-9+.\-]*:/i, '').replace(/^\/*/, '');
+    const slash = rest.indexOf('/');
+    const authority = slash === -1 ? rest : rest.substring(0, slash);
+    host = authority.substring(authority.lastIndexOf('@') + 1).replace(/:\d*$/, '').toLowerCase();
+    path = slash === -1 ? '' : rest.substring(slash);
+  } else if (!base) {
+    return null;
+  } else if (location.charAt(0) === '/') {
+    host = base.host;
+    path = location;
+  } else {
+    // Relative to the folder of the current page; an empty location is the page itself
+    host = base.host;
+    path = location ? `${base.path.substring(0, base.path.lastIndexOf('/') + 1)}${location}` : base.path;
+  }
+
+  return { host, path: normalizePath(path), query };
+}
+
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+
+  path.split('/').forEach(segment => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(decode(segment).toLowerCase());
+    }
+  });
+
+  return segments.length > 0 ? `/${segments.join('/')}` : '';
+}
+
+function parseQuery(query: string): { [name: string]: string } {
+  const parameters: { [name: string]: string } = {};
+
+  query.split('&').forEach(pair => {
+    if (!pair) {
+      return;
+    }
+    const separator = pair.indexOf('=');
+    const name = separator === -1 ? pair : pair.substring(0, separator);
+    const value = separator === -1 ? '' : pair.substring(separator + 1);
+    parameters[decode(name).toLowerCase()] = decode(value).toLowerCase();
+  });
+
+  return parameters;
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch (error) {
+    return value;
+  }
+}
@@ -0,0 +1,123 @@
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { MenuData, MenuItem } from './MegaMenuService';
+import { filterMenuEntries } from './MenuFilter';
+
+export interface IUserGroups {
+  ids: string[];
+  /** Lower-cased group titles */
+  titles: string[];
+}
+
+interface IAudienceTarget {
+  audiences?: (string | number)[];
+}
+
+/**
+ * Resolves the current user's SharePoint group memberships and filters
+ * audience-targeted navigation items, columns and links.
+ */
+export class AudienceService {
+  private static pendingGroups: { [cacheKey: string]: Promise<IUserGroups> } = {};
+
+  private spHttpClient: SPHttpClient;
+  private baseUrl: string;
+  private cacheKey: string;
+
+  constructor(spHttpClient: SPHttpClient, baseUrl: string, userLoginName: string) {
+    this.spHttpClient = spHttpClient;
+    this.baseUrl = baseUrl;
+    this.cacheKey = `spfx-mega-menu-groups:${baseUrl}:${userLoginName}`;
+  }
+
+  public static hasAudiences(data: MenuData): boolean {
+    const itemHasAudiences = (menuItem: MenuItem): boolean =>
+      isTargeted(menuItem) || !!menuItem.children && menuItem.children.some(itemHasAudiences);
+
+    return data.navigation.some(item =>
+      isTargeted(item) || !!item.megaMenu && item.megaMenu.columns.some(column =>
+        isTargeted(column) || column.items.some(itemHasAudiences)));
+  }
+
+  /**
+   * Gets the current user's groups, resolved once per browser session.
+   * Failures are not cached, so the lookup is retried on the next page load.
+   */
+  public getCurrentUserGroups(): Promise<IUserGroups> {
+    const cached = this.getCachedGroups();
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+
+    if (!AudienceService.pendingGroups[this.cacheKey]) {
+      AudienceService.pendingGroups[this.cacheKey] = this.fetchCurrentUserGroups()
+        .then(groups => {
+          this.cacheGroups(groups);
+          return groups;
+        }, error => {
+          delete AudienceService.pendingGroups[this.cacheKey];
+          throw error;
+        });
+    }
+    return AudienceService.pendingGroups[this.cacheKey];
+  }
+
+  /** Removes everything targeted at audiences the user does not belong to */
+  public filterMenuData(data: MenuData, groups: IUserGroups): MenuData {
+    return filterMenuEntries(data, entry => this.isVisible(entry, groups));
+  }
+
+  private isVisible(target: IAudienceTarget, groups: IUserGroups): boolean {
+    if (!isTargeted(target)) {
+      return true;
+    }
+
+    return target.audiences.some(audience => {
+      const value = String(audience).trim();
+      return groups.ids.indexOf(value) !== -1 || groups.titles.indexOf(value.toLowerCase()) !== -1;
+    });
+  }
+
+  private async fetchCurrentUserGroups(): Promise<IUserGroups> {
+    const endpoint = `${this.baseUrl}/_api/web/currentuser/groups?$select=Id,Title`;
+    console.log('Fetching current user groups from:', endpoint);
+
+    const response: SPHttpClientResponse = await this.spHttpClient.get(
+      endpoint,
+      SPHttpClient.configurations.v1
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch user groups: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    const groups: { Id: number, Title: string }[] = result.value || [];
+
+    return {
+      ids: groups.map(group => String(group.Id)),
+      titles: groups.map(group => group.Title.toLowerCase())
+    };
+  }
+
+  private cacheGroups(groups: IUserGroups): void {
+    try {
+      sessionStorage.setItem(this.cacheKey, JSON.stringify(groups));
+    } catch (error) {
+      console.warn('Failed to cache user groups:', error);
+    }
+  }
+
+  private getCachedGroups(): IUserGroups | null {
+    try {
+      const cached = sessionStorage.getItem(this.cacheKey);
+      return cached ? JSON.parse(cached) : null;
+    } catch (error) {
+      console.warn('Failed to retrieve cached user groups:', error);
+      return null;
+    }
+  }
+}
+
+function isTargeted(target: IAudienceTarget): boolean {
+  return !!target.audiences && target.audiences.length > 0;
+}
@@ -0,0 +1,66 @@
+import { LocalizedText } from './MegaMenuService';
+
+export const DEFAULT_CULTURE_NAME: string = 'en-us';
+
+/**
+ * Cultures to try for a page culture, most specific first: "es-mx" falls back to "es",
+ * then to any other Spanish variant, then to the default culture and its language.
+ */
+export function getCultureFallbacks(cultureName: string, defaultCultureName: string = DEFAULT_CULTURE_NAME): string[] {
+  const fallbacks: string[] = [];
+
+  [cultureName, defaultCultureName].forEach(name => {
+    const culture = normalizeCultureName(name || '');
+    if (!culture) {
+      return;
+    }
+    const language = culture.split('-')[0];
+    [culture, language, `${language}-*`].forEach(candidate => {
+      if (fallbacks.indexOf(candidate) === -1) {
+        fallbacks.push(candidate);
+      }
+    });
+  });
+
+  return fallbacks;
+}
+
+/**
+ * Picks the translation of a text for the page culture. Plain strings are returned as they are;
+ * when no fallback culture has a translation, the first one is used.
+ */
+export function resolveLocalizedText(text: LocalizedText | undefined, cultureName: string): string {
+  if (text === undefined || text === null) {
+    return '';
+  }
+  if (typeof text === 'string') {
+    return text;
+  }
+
+  const translations: { [culture: string]: string } = {};
+  const cultures: string[] = [];
+  Object.keys(text).forEach(key => {
+    const culture = normalizeCultureName(key);
+    translations[culture] = text[key];
+    cultures.push(culture);
+  });
+
+  for (const candidate of getCultureFallbacks(cultureName)) {
+    if (candidate.substring(candidate.length - 2) === '-*') {
+      const prefix = candidate.substring(0, candidate.length - 1);
+      const variants = cultures.filter(culture => culture.substring(0, prefix.length) === prefix);
+      if (variants.length > 0) {
+        return translations[variants[0]];
+      }
+    } else if (translations.hasOwnProperty(candidate)) {
+      return translations[candidate];
+    }
+  }
+
+  return cultures.length > 0 ? translations[cultures[0]] : '';
+}
+
+/** "es_ES" and "ES-es" both become "es-es" */
+function normalizeCultureName(cultureName: string): string {
+  return cultureName.trim().toLowerCase().replace(/_/g, '-');
+}
@@ -1,13 +1,85 @@
 import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { SPPermission } from '@microsoft/sp-page-context';
+import { MenuDataParseError } from './MenuDataParser';
+import { MenuError } from './MenuError';
+import { MenuFileFormat, getMenuFileFormat, parseMenuFile } from './MenuFileFormats';
+import { serializeMenuFile, isSameMenuValue } from './MenuFileSerializer';
+import {
+  IMenuDataSource,
+  IMenuDataLoadInfo,
+  IMenuDataVersion,
+  IMenuSourceFailure,
+  IMenuSourceResult,
+  MenuDataSourceType,
+  DEFAULT_SOURCE_ORDER,
+  isSameVersion
+} from './MenuDataSources';
+import { MenuDataValidator, IMenuValidationError } from './MenuDataValidator';
+import { MenuLinter } from './MenuLinter';
+import { attachPreviewWarnings } from './MenuPreviewWarnings';
+import { AudienceService } from './AudienceService';
+import { UrlPolicy } from './UrlPolicy';
+import { MenuCache, ICachedMenuData } from './MenuCache';
+import { IMenuCacheStorage, createMenuCacheStorage } from './MenuCacheStorage';
+import { getNextVisibilityChange } from './MenuSchedule';
+import { getFallbackMenuData } from './FallbackMenuData';
+
+/** Text for every audience, or translations keyed by culture name, e.g. `{ "en-us": "Forms", "es-es": "Formularios" }` */
+export type LocalizedText = string | { [cultureName: string]: string };
+
+/**
+ * How a link is matched against the current page to highlight it: "prefix" (the default) also
+ * matches pages below the link's path, "exact" only the page itself, and "none" never matches.
+ */
+export type MenuLinkMatch = 'exact' | 'prefix' | 'none';
 
 export interface MenuItem {
-  title: string;
+  title: LocalizedText;
+  href: string;
+  match?: MenuLinkMatch;
+  /** SharePoint group names or IDs that can see the link; visible to everyone when empty */
+  audiences?: (string | number)[];
+  /** Nested links, shown as flyout submenus */
+  children?: MenuItem[];
+  /** Office UI Fabric icon name, e.g. "Mail" */
+  icon?: string;
+  /** One-line description shown under the title */
+  description?: LocalizedText;
+  /** Short label shown next to the title, e.g. "New" or "Deactivated" */
+  badge?: string;
+  /** ISO 8601 date and time with a time zone from which the link is shown, e.g. "2025-06-01T08:00:00-05:00" */
+  showFrom?: string;
+  /** ISO 8601 date and time with a time zone from which the link is hidden again */
+  showUntil?: string;
+  /** Problems found in preview mode, shown next to the link */
+  warnings?: string[];
+}
+
+export interface MenuCallToAction {
+  text: LocalizedText;
   href: string;
 }
 
+export type MenuColumnVariant = 'links' | 'featured';
+
 export interface MenuColumn {
-  title: string;
+  title: LocalizedText;
+  /** Links of the column; optional for featured columns */
   items: MenuItem[];
+  audiences?: (string | number)[];
+  /** A "featured" column shows a promo panel (image, headline, description and button) above its links */
+  variant?: MenuColumnVariant;
+  image?: string;
+  imageAlt?: LocalizedText;
+  headline?: LocalizedText;
+  description?: LocalizedText;
+  cta?: MenuCallToAction;
+  /** ISO 8601 date and time with a time zone from which the column is shown, e.g. "2025-06-01T08:00:00-05:00" */
+  showFrom?: string;
+  /** ISO 8601 date and time with a time zone from which the column is hidden again */
+  showUntil?: string;
+  /** Problems found in preview mode, shown next to the column title */
+  warnings?: string[];
 }
 
 export interface MegaMenuData {
@@ -15,92 +87,771 @@ export interface MegaMenuData {
 }
 
 export interface NavigationItem {
-  title: string;
+  title: LocalizedText;
   href: string;
+  match?: MenuLinkMatch;
   megaMenu?: MegaMenuData;
+  audiences?: (string | number)[];
+  /** ISO 8601 date and time with a time zone from which the item is shown, e.g. "2025-06-01T08:00:00-05:00" */
+  showFrom?: string;
+  /** ISO 8601 date and time with a time zone from which the item is hidden again */
+  showUntil?: string;
+  /** Problems found in preview mode, shown next to the item */
+  warnings?: string[];
+}
+
+export type MenuColorScheme = 'light' | 'dark' | 'auto';
+
+/** Colors and dimensions of the menu; each value is any CSS value, e.g. "#b91c1c" or "72px" */
+export interface MenuTheme {
+  /** Menu bar, column headings, badges and buttons */
+  primaryColor?: string;
+  /** Hover background on the menu bar */
+  primaryDarkColor?: string;
+  /** Mobile menu background */
+  primaryDarkerColor?: string;
+  /** Hover text on the menu bar and mobile headings */
+  primaryLightColor?: string;
+  /** Link hover background in the dropdown */
+  primaryLighterColor?: string;
+  /** Bottom border of the dropdown */
+  accentColor?: string;
+  textOnPrimaryColor?: string;
+  /** Dropdown and flyout background */
+  surfaceColor?: string;
+  textColor?: string;
+  mutedTextColor?: string;
+  borderColor?: string;
+  /** Dropdown links; the primary color by default */
+  linkColor?: string;
+  fontFamily?: string;
+  headerHeight?: string;
+  maxWidth?: string;
+  /** "auto" follows the operating system setting */
+  colorScheme?: MenuColorScheme;
 }
 
 export interface MenuData {
   navigation: NavigationItem[];
+  /** Overrides the site theme for this menu */
+  theme?: MenuTheme;
 }
 
+/** A row of the menu list, as returned by the SharePoint REST API */
+interface IMenuListItem {
+  Id: number;
+  Title: string;
+  /** A hyperlink field ({ Url, Description }) or a plain text field */
+  Url: { Url: string } | string | null;
+  ParentId: number | null;
+  Column: string | null;
+  SortOrder: number | null;
+  Enabled: boolean | null;
+}
+
+export interface IMegaMenuServiceOptions {
+  /** Drop invalid navigation items, columns and links instead of rejecting the whole file */
+  lenientValidation?: boolean;
+  /** Order in which the menu data sources are tried */
+  sourceOrder?: MenuDataSourceType[];
+  /** Title of the SharePoint list used by the list source */
+  menuListTitle?: string;
+  /** Menu data given directly in the customizer properties, as an object or a JSON string */
+  inlineMenuData?: string | MenuData;
+  /** Filters audience-targeted entries for the current user; everything is shown when omitted */
+  audienceService?: AudienceService;
+  /** Drops entries linking to disallowed URLs; every URL is kept when omitted */
+  urlPolicy?: UrlPolicy;
+  /** Minutes the cached menu is used without checking the source for changes (default: 5) */
+  cacheDuration?: number;
+  /** Minutes an outdated cached menu may still be shown while it is revalidated (default: 7 days) */
+  maxStaleness?: number;
+  /** Where cached menus are kept (default: localStorage) */
+  cacheStorage?: IMenuCacheStorage;
+}
+
+/** The menu file of the library as it is stored, before audiences and the URL policy are applied */
+export interface IEditableMenuFile {
+  data: MenuData;
+  format: MenuFileFormat;
+  /** Identifies the stored version; saving fails if the file has changed since */
+  etag: string;
+}
+
+/** Thrown when the menu file was changed by someone else since it was loaded for editing */
+export class MenuFileConflictError extends MenuError {
+  constructor(fileName: string) {
+    super(`${fileName} was changed by someone else since it was opened`);
+    this.name = 'MenuFileConflictError';
+  }
+}
+
+/** A version of the menu file in the library's version history */
+export interface IMenuFileVersion {
+  /** ID in the file's versions collection; missing for the current version */
+  id?: number;
+  label: string;
+  /** ISO date the version was saved */
+  created: string;
+  author: string;
+  comment: string;
+  isCurrent: boolean;
+}
+
+/** Thrown when the menu file could be fetched but not parsed or validated */
+export class InvalidMenuFileError extends MenuError {
+  /** Version of the invalid file, so its replacement is cached until the file changes */
+  public version: IMenuDataVersion | undefined;
+
+  constructor(message: string, version?: IMenuDataVersion) {
+    super(message);
+    this.name = 'InvalidMenuFileError';
+    this.version = version;
+  }
+}
+
+/** A menu file loaded for preview, with the problems found in it */
+export interface IMenuPreview {
+  fileName: string;
+  /** The menu as it would be shown, with the `warnings` of its entries set */
+  data: MenuData;
+  /** Problems that belong to no entry shown in the menu */
+  warnings: string[];
+}
+
+/** How many earlier versions are tried when the current menu file is invalid */
+const MAX_FALLBACK_VERSIONS: number = 10;
+
 export class MegaMenuService {
   private spHttpClient: SPHttpClient;
   private baseUrl: string;
   private documentLibrary: string;
   private fileName: string;
-  private cacheKey: string = 'spfx-mega-menu-data';
-  private cacheExpiry: number = 30 * 60 * 1000; // 30 minutes
+  private cache: MenuCache;
+  private cacheDuration: number;
+  private maxStaleness: number;
+  private options: IMegaMenuServiceOptions;
+  private validationErrors: IMenuValidationError[] = [];
+  private rejectedUrls: IMenuValidationError[] = [];
+  private loadInfo: IMenuDataLoadInfo | null = null;
 
   constructor(
     spHttpClient: SPHttpClient,
     baseUrl: string,
     documentLibrary: string = 'Shared Documents',
-    fileName: string = 'menuData.ts'
+    fileName: string = 'menuData.ts',
+    options: IMegaMenuServiceOptions = {}
   ) {
     this.spHttpClient = spHttpClient;
     this.baseUrl = baseUrl;
     this.documentLibrary = documentLibrary;
     this.fileName = fileName;
+    this.options = options;
+    this.cache = new MenuCache(options.cacheStorage || createMenuCacheStorage(), {
+      webUrl: baseUrl,
+      documentLibrary,
+      fileName
+    });
+    this.cacheDuration = (options.cacheDuration !== undefined ? options.cacheDuration : 5) * 60 * 1000;
+    this.maxStaleness = (options.maxStaleness !== undefined ? options.maxStaleness : 7 * 24 * 60) * 60 * 1000;
+  }
+
+  /** Which source served the last menu and which sources failed before it */
+  public getLoadInfo(): IMenuDataLoadInfo | null {
+    return this.loadInfo;
+  }
+
+  /** Validation problems found in the last parsed menu file */
+  public getValidationErrors(): IMenuValidationError[] {
+    return this.validationErrors;
+  }
+
+  /** Entries of the last menu that were dropped because of the URL policy */
+  public getRejectedUrls(): IMenuValidationError[] {
+    return this.rejectedUrls;
+  }
+
+  /**
+   * Gets the menu, from the cache when possible. An outdated cached menu is returned immediately
+   * and revalidated in the background; if the source has changed, `onUpdate` receives the new menu.
+   */
+  public async getMenuData(onUpdate?: (data: MenuData) => void): Promise<MenuData> {
+    const data = await this.loadMenuData(onUpdate);
+    return this.prepareMenuData(data);
+  }
+
+  /** Removes the cached menu, so the next load goes to the sources */
+  public async clearCache(): Promise<void> {
+    try {
+      await this.cache.remove();
+      console.log('Cleared cached menu data');
+    } catch (error) {
+      console.warn('Failed to clear cached menu data:', error);
+    }
+  }
+
+  /** Loads the menu file of the library for editing; files with invalid entries are rejected rather than trimmed */
+  public async getEditableMenuFile(): Promise<IEditableMenuFile> {
+    const format = getMenuFileFormat(this.fileName);
+    const response: SPHttpClientResponse = await this.spHttpClient.get(
+      `${this.getFileEndpoint()}/$value`,
+      SPHttpClient.configurations.v1
+    );
+    if (!response.ok) {
+      throw new Error(`SharePoint Document Library error: ${response.status} ${response.statusText}`);
+    }
+
+    const etag = response.headers.get('ETag');
+    const data = this.validateEditedMenuData(parseMenuFile(await response.text(), format));
+    return { data, format, etag: etag || await this.fetchFileETag() };
+  }
+
+  /**
+   * Writes menu data back to the library file. The file is only replaced if it still has the
+   * given ETag; otherwise a MenuFileConflictError is thrown and nothing is written.
+   */
+  public async saveMenuFile(data: MenuData, etag: string): Promise<IEditableMenuFile> {
+    const format = getMenuFileFormat(this.fileName);
+    const validated = this.validateEditedMenuData(data);
+    const content = serializeMenuFile(validated, format);
+    // Never write a file that would not read back as the same menu
+    if (!isSameMenuValue(parseMenuFile(content, format), validated)) {
+      throw new Error(`The menu could not be written as ${format} without changing it`);
+    }
+
+    const response: SPHttpClientResponse = await this.spHttpClient.post(
+      `${this.getFileEndpoint()}/$value`,
+      SPHttpClient.configurations.v1,
+      {
+        headers: { 'X-HTTP-Method': 'PUT', 'If-Match': etag },
+        body: content
+      }
+    );
+    if (response.status === 412) {
+      throw new MenuFileConflictError(this.fileName);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to save ${this.fileName}: ${response.status} ${response.statusText}`);
+    }
+
+    console.log(`Saved ${this.fileName}`);
+    await this.clearCache();
+    const savedETag = response.headers.get('ETag');
+    // Without the ETag of the written file, read it back so the data and ETag belong to the same version
+    return savedETag ? { data: validated, format, etag: savedETag } : this.getEditableMenuFile();
+  }
+
+  /** Lists the versions of the library menu file, newest first, starting with the current version */
+  public async getMenuFileVersions(): Promise<IMenuFileVersion[]> {
+    const [fileResponse, versionsResponse]: SPHttpClientResponse[] = await Promise.all([
+      this.spHttpClient.get(
+        `${this.getFileEndpoint()}?$select=UIVersionLabel,TimeLastModified,CheckInComment,ModifiedBy/Title&$expand=ModifiedBy`,
+        SPHttpClient.configurations.v1
+      ),
+      this.spHttpClient.get(
+        `${this.getFileEndpoint()}/versions?$select=ID,VersionLabel,Created,CheckInComment,CreatedBy/Title&$expand=CreatedBy`,
+        SPHttpClient.configurations.v1
+      )
+    ]);
+    if (!fileResponse.ok) {
+      throw new Error(`File not found: ${fileResponse.status} ${fileResponse.statusText}`);
+    }
+    if (!versionsResponse.ok) {
+      throw new Error(`Failed to list versions of ${this.fileName}: ${versionsResponse.status} ${versionsResponse.statusText}`);
+    }
+
+    const file = await fileResponse.json();
+    const versions: any[] = (await versionsResponse.json()).value;
+
+    const current: IMenuFileVersion = {
+      label: file.UIVersionLabel,
+      created: file.TimeLastModified,
+      author: file.ModifiedBy ? file.ModifiedBy.Title : '',
+      comment: file.CheckInComment || '',
+      isCurrent: true
+    };
+    return [current].concat(versions
+      .sort((a, b) => b.ID - a.ID)
+      .map((version): IMenuFileVersion => ({
+        id: version.ID,
+        label: version.VersionLabel,
+        created: version.Created,
+        author: version.CreatedBy ? version.CreatedBy.Title : '',
+        comment: version.CheckInComment || '',
+        isCurrent: false
+      })));
   }
 
-  public async getMenuData(): Promise<MenuData> {
+  /** Reads the menu stored in a version of the library menu file; invalid menus are rejected */
+  public async getMenuFileVersionData(version: IMenuFileVersion): Promise<MenuData> {
+    const content = await this.fetchFileVersionContent(version);
+    return this.validateEditedMenuData(parseMenuFile(content, getMenuFileFormat(this.fileName)));
+  }
+
+  /** Makes an earlier version of the library menu file the current one, as a new version */
+  public async restoreMenuFileVersion(version: IMenuFileVersion): Promise<void> {
+    const response: SPHttpClientResponse = await this.spHttpClient.post(
+      `${this.getFileEndpoint()}/versions/restoreByLabel(versionlabel='${encodeURIComponent(version.label)}')`,
+      SPHttpClient.configurations.v1,
+      {}
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to restore version ${version.label} of ${this.fileName}: ${response.status} ${response.statusText}`);
+    }
+
+    console.log(`Restored version ${version.label} of ${this.fileName}`);
+    await this.clearCache();
+  }
+
+  private async fetchFileVersionContent(version: IMenuFileVersion): Promise<string> {
+    const endpoint = version.isCurrent
+      ? `${this.getFileEndpoint()}/$value`
+      : `${this.getFileEndpoint()}/versions(${version.id})/$value`;
+    const response: SPHttpClientResponse = await this.spHttpClient.get(endpoint, SPHttpClient.configurations.v1);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch version ${version.label} of ${this.fileName}: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Finds the most recent earlier version of the menu file that parses and validates, for when
+   * someone saved a broken file. The result keeps the version of the broken file, so it stays
+   * cached until the file is changed again. When no version can be read, the broken file's
+   * version is remembered so later page loads do not search the versions again.
+   */
+  private async fetchLastValidMenuFileVersion(invalidFile: InvalidMenuFileError): Promise<IMenuSourceResult> {
+    // An unsupported file name makes every version unreadable
+    const format = getMenuFileFormat(this.fileName);
+    if (isSameVersion(await this.getInvalidFileVersion(), invalidFile.version)) {
+      console.warn(`No earlier version of ${this.fileName} could be read when this version was last checked`);
+      throw invalidFile;
+    }
+
+    const versions = (await this.getMenuFileVersions())
+      .filter(version => !version.isCurrent)
+      .slice(0, MAX_FALLBACK_VERSIONS);
+
+    for (const version of versions) {
+      try {
+        const content = await this.fetchFileVersionContent(version);
+        const data = this.validateMenuData(parseMenuFile(content, format));
+        console.warn(`${this.fileName} could not be read, using its version ${version.label} instead`);
+        return { data, version: invalidFile.version, fileVersion: version.label };
+      } catch (error) {
+        console.warn(`Version ${version.label} of ${this.fileName} could not be read either:`, error);
+      }
+    }
+
+    if (invalidFile.version) {
+      await this.setInvalidFileVersion(invalidFile.version);
+    }
+    throw invalidFile;
+  }
+
+  /** Whether the current user may edit files in the document library of the menu file */
+  public async canEditLibrary(): Promise<boolean> {
+    const response: SPHttpClientResponse = await this.spHttpClient.get(
+      `${this.getFileEndpoint()}/ListItemAllFields/ParentList/EffectiveBasePermissions`,
+      SPHttpClient.configurations.v1
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to read the permissions of ${this.documentLibrary}: ${response.status} ${response.statusText}`);
+    }
+
+    return new SPPermission(await response.json()).hasPermission(SPPermission.editListItems);
+  }
+
+  /**
+   * Loads another menu file of the library, such as a draft, without using or changing the cached
+   * menu. Invalid entries are left out as with lenient validation; they, the URL policy's
+   * rejections and the linter's findings are returned as warnings, most of them attached to the
+   * entries of the menu.
+   */
+  public async getPreviewMenuData(fileName: string): Promise<IMenuPreview> {
+    const format = getMenuFileFormat(fileName);
+    const response: SPHttpClientResponse = await this.spHttpClient.get(
+      `${this.getFileEndpoint(fileName)}/$value`,
+      SPHttpClient.configurations.v1
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to load ${fileName}: ${response.status} ${response.statusText}`);
+    }
+
+    const parsed = parseMenuFile(await response.text(), format);
+    const firstValidation = new MenuDataValidator(true).validate(parsed);
+    if (!firstValidation.data) {
+      throw new Error(`Invalid menu data structure:\n${MenuDataValidator.formatErrors(firstValidation.errors)}`);
+    }
+
+    // Validation drops invalid entries and shifts the positions of the entries after them, so its
+    // errors are attached to the parsed entries, which keep them through validation
+    const withErrors = attachPreviewWarnings(parsed, firstValidation.errors.map(error => ({ ...error, dropped: true })));
+    const validated = new MenuDataValidator(true).validate(withErrors.data).data;
+    const annotated = attachPreviewWarnings(validated, new MenuLinter().lint(validated)
+      .map(issue => ({ path: issue.path, message: issue.message, dropped: false })));
+
+    // URL policy rejections are attached before the rejected entries are dropped, so their paths still apply
+    const rejections = this.options.urlPolicy ? this.options.urlPolicy.filterMenuData(annotated.data).rejected : [];
+    const withRejections = attachPreviewWarnings(annotated.data, rejections
+      .map(rejection => ({ ...rejection, dropped: /\]\.href$/.test(rejection.path) })));
+
+    return {
+      fileName,
+      data: await this.prepareMenuData(withRejections.data),
+      warnings: withErrors.unplaced.concat(annotated.unplaced, withRejections.unplaced)
+    };
+  }
+
+  private getFileEndpoint(fileName: string = this.fileName): string {
+    // Preview file names come from the page URL, so quotes are doubled for the OData string and the rest encoded
+    const filePath = fileName.replace(/'/g, "''").split('/').map(segment => encodeURIComponent(segment)).join('/');
+    return `${this.baseUrl}/_api/web/GetFileByServerRelativeUrl('/${this.documentLibrary}/${filePath}')`;
+  }
+
+  private async fetchFileETag(): Promise<string> {
+    const response: SPHttpClientResponse = await this.spHttpClient.get(
+      `${this.getFileEndpoint()}?$select=ETag`,
+      SPHttpClient.configurations.v1
+    );
+    if (!response.ok) {
+      throw new Error(`File not found: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()).ETag;
+  }
+
+  private validateEditedMenuData(value: any): MenuData {
+    const result = new MenuDataValidator(false).validate(value);
+    if (!result.data) {
+      throw new Error(`Invalid menu data structure:\n${MenuDataValidator.formatErrors(result.errors)}`);
+    }
+    return result.data;
+  }
+
+  private prepareMenuData(data: MenuData): Promise<MenuData> {
+    return this.applyAudiences(this.applyUrlPolicy(data));
+  }
+
+  /** Applied on every load, so cached menus follow the current policy as well */
+  private applyUrlPolicy(data: MenuData): MenuData {
+    const urlPolicy = this.options.urlPolicy;
+    if (!urlPolicy) {
+      this.rejectedUrls = [];
+      return data;
+    }
+
+    const result = urlPolicy.filterMenuData(data);
+    this.rejectedUrls = result.rejected;
+    if (result.rejected.length > 0) {
+      console.warn(`Dropped menu entries with disallowed URLs:\n${MenuDataValidator.formatErrors(result.rejected)}`);
+    }
+    return result.data;
+  }
+
+  private async applyAudiences(data: MenuData): Promise<MenuData> {
+    const audienceService = this.options.audienceService;
+    if (!audienceService || !AudienceService.hasAudiences(data)) {
+      return data;
+    }
+
+    try {
+      const groups = await audienceService.getCurrentUserGroups();
+      return audienceService.filterMenuData(data, groups);
+    } catch (error) {
+      console.warn('Failed to resolve user groups, hiding audience-targeted entries:', error);
+      return audienceService.filterMenuData(data, { ids: [], titles: [] });
+    }
+  }
+
+  private async loadMenuData(onUpdate?: (data: MenuData) => void): Promise<MenuData> {
     // Try cache first
-    const cached = this.getCachedMenuData();
+    const cached = await this.getCachedMenuData();
     if (cached) {
-      console.log('Using cached menu data');
-      return cached;
+      console.log(`Using cached menu data from the ${cached.source} source`);
+      this.loadInfo = { source: cached.source, fromCache: true, failures: [] };
+      // Scheduled entries end the cache duration early, so a menu edited around them is picked up in time
+      const now = Date.now();
+      if (now - cached.timestamp > this.cacheDuration || (cached.expiresAt !== undefined && now >= cached.expiresAt)) {
+        this.revalidateCachedMenuData(cached, onUpdate);
+      }
+      return cached.data;
+    }
+
+    const failures: IMenuSourceFailure[] = [];
+
+    for (const source of this.createSources()) {
+      try {
+        console.log(`Loading menu data from the ${source.type} source`);
+        const result = await source.load();
+
+        // The bundled menu is always available, so there is nothing to gain from caching it
+        if (source.type !== 'static') {
+          await this.cacheMenuData(result.data, source.type, result.version);
+        }
+
+        this.loadInfo = { source: source.type, fromCache: false, failures, fileVersion: result.fileVersion };
+        console.log(`Successfully loaded menu data from the ${source.type} source`);
+        return result.data;
+      } catch (error) {
+        console.warn(`Menu data source "${source.type}" failed:`, error);
+        failures.push({ source: source.type, reason: error.message });
+      }
+    }
+
+    this.loadInfo = null;
+    throw new Error(`No menu data source succeeded: ${failures.map(failure => `${failure.source}: ${failure.reason}`).join('; ')}`);
+  }
+
+  /**
+   * Checks the source that served the cached menu for changes. Unchanged menus restart the
+   * cache duration; changed menus replace the cached copy and are passed to `onUpdate`.
+   */
+  private async revalidateCachedMenuData(cached: ICachedMenuData, onUpdate?: (data: MenuData) => void): Promise<void> {
+    const source = this.createSources().filter(candidate => candidate.type === cached.source)[0];
+    if (!source) {
+      // The source is no longer configured, so the next page load starts over
+      await this.clearCache();
+      return;
     }
 
     try {
-      console.log(`Fetching menu data from: ${this.documentLibrary}/${this.fileName}`);
-      
-      // Try primary method first
-      const data = await this.fetchMenuDataFile();
-      this.cacheMenuData(data);
-      console.log('Successfully fetched and cached menu data');
-      return data;
+      console.log(`Revalidating cached menu data with the ${source.type} source`);
+      const result = await source.load(cached.version);
+
+      if (!result || JSON.stringify(result.data) === JSON.stringify(cached.data)) {
+        console.log('Cached menu data is up to date');
+        await this.cacheMenuData(cached.data, cached.source, result ? result.version : cached.version);
+        return;
+      }
+
+      console.log(`Menu data changed in the ${source.type} source, updating the menu`);
+      await this.cacheMenuData(result.data, source.type, result.version);
+      this.loadInfo = { source: source.type, fromCache: false, failures: [], fileVersion: result.fileVersion };
+      if (onUpdate) {
+        onUpdate(await this.prepareMenuData(result.data));
+      }
     } catch (error) {
-      console.warn('Primary fetch method failed, trying alternative:', error);
-      
+      console.warn('Failed to revalidate cached menu data, keeping the cached copy:', error);
+    }
+  }
+
+  private createSources(): IMenuDataSource[] {
+    const order = this.options.sourceOrder || DEFAULT_SOURCE_ORDER;
+
+    return order.map((type): IMenuDataSource => {
+      switch (type) {
+        case 'library':
+          return { type, load: cachedVersion => this.fetchMenuDataFromLibrary(cachedVersion) };
+        case 'list':
+          return { type, load: cachedVersion => this.fetchMenuDataList(cachedVersion) };
+        case 'inline':
+          return { type, load: () => this.getInlineMenuData() };
+        default:
+          return { type, load: () => Promise.resolve({ data: getFallbackMenuData() }) };
+      }
+    });
+  }
+
+  private async fetchMenuDataFromLibrary(cachedVersion?: IMenuDataVersion): Promise<IMenuSourceResult | null> {
+    console.log(`Fetching menu data from: ${this.documentLibrary}/${this.fileName}`);
+
+    try {
       try {
-        // Try alternative method
-        const data = await this.fetchMenuDataFileAlternative();
-        this.cacheMenuData(data);
-        console.log('Successfully fetched menu data using alternative method');
-        return data;
-      } catch (alternativeError) {
-        console.error('Both fetch methods failed:', alternativeError);
-        
-        // Return fallback data
-        console.log('Using fallback menu data');
-        return this.getFallbackMenuData();
+        return await this.fetchMenuDataFile(cachedVersion);
+      } catch (error) {
+        // The file was read; the alternative method would only get the same invalid content
+        if (error instanceof InvalidMenuFileError) {
+          throw error;
+        }
+        console.warn('Primary fetch method failed, trying alternative:', error);
+        return await this.fetchMenuDataFileAlternative(cachedVersion);
       }
+    } catch (error) {
+      if (!(error instanceof InvalidMenuFileError)) {
+        throw error;
+      }
+      console.warn(`${this.fileName} is invalid, looking for an earlier version that can be read`);
+      return this.fetchLastValidMenuFileVersion(error);
     }
   }
 
-  private async fetchMenuDataFile(): Promise<MenuData> {
+  private async getInlineMenuData(): Promise<IMenuSourceResult> {
+    const inlineMenuData = this.options.inlineMenuData;
+    if (!inlineMenuData) {
+      throw new Error('No inline menu data configured');
+    }
+
+    const parsedData = typeof inlineMenuData === 'string'
+      ? parseMenuFile(inlineMenuData, 'json')
+      : inlineMenuData;
+    return { data: this.validateMenuData(parsedData) };
+  }
+
+  private async fetchMenuDataFile(cachedVersion?: IMenuDataVersion): Promise<IMenuSourceResult | null> {
     // Construct the SharePoint REST API endpoint to get file content
     const endpoint = `${this.baseUrl}/_api/web/GetFileByServerRelativeUrl('/${this.documentLibrary}/${this.fileName}')/$value`;
     
     console.log('Fetching from endpoint:', endpoint);
 
+    // With the ETag of the cached copy, SharePoint answers 304 Not Modified instead of resending the file
+    const headers: { [name: string]: string } = {};
+    if (cachedVersion && cachedVersion.etag) {
+      headers['If-None-Match'] = cachedVersion.etag;
+    }
+
     const response: SPHttpClientResponse = await this.spHttpClient.get(
       endpoint,
-      SPHttpClient.configurations.v1
+      SPHttpClient.configurations.v1,
+      { headers }
     );
 
+    if (response.status === 304) {
+      return null;
+    }
     if (!response.ok) {
       throw new Error(`SharePoint Document Library error: ${response.status} ${response.statusText}`);
     }
 
     const fileContent = await response.text();
     console.log('Raw file content received:', fileContent.substring(0, 200) + '...');
-    
-    return this.parseMenuDataFromFile(fileContent);
+
+    const version: IMenuDataVersion = { etag: response.headers.get('ETag') || undefined };
+    return { data: this.parseMenuDataFromFile(fileContent, version), version };
   }
 
-  private async fetchMenuDataFileAlternative(): Promise<MenuData> {
+  private async fetchMenuDataList(cachedVersion?: IMenuDataVersion): Promise<IMenuSourceResult | null> {
+    const listTitle = this.options.menuListTitle;
+    if (!listTitle) {
+      throw new Error('No menu list configured');
+    }
+
+    const listEndpoint = `${this.baseUrl}/_api/web/lists/getbytitle('${encodeURIComponent(listTitle.replace(/'/g, "''"))}')`;
+    const version = await this.fetchListVersion(listEndpoint);
+    if (isSameVersion(cachedVersion, version)) {
+      return null;
+    }
+
+    // No $filter or $orderby: on lists above the 5000 item view threshold they would require
+    // indexed columns, so items are paged in ID order and sorted on the client instead.
+    let endpoint: string | undefined = `${listEndpoint}/items` +
+      '?$select=Id,Title,Url,ParentId,Column,SortOrder,Enabled&$top=5000';
+    const listItems: IMenuListItem[] = [];
+
+    while (endpoint) {
+      console.log('Fetching menu list items from:', endpoint);
+
+      const response: SPHttpClientResponse = await this.spHttpClient.get(
+        endpoint,
+        SPHttpClient.configurations.v1
+      );
+
+      if (!response.ok) {
+        throw new Error(`SharePoint list error: ${response.status} ${response.statusText}`);
+      }
+
+      const page = await response.json();
+      listItems.push(...page.value);
+      endpoint = page['@odata.nextLink'] || page['odata.nextLink'];
+    }
+
+    console.log(`Received ${listItems.length} menu list items`);
+    return { data: this.validateMenuData(this.buildMenuDataFromList(listItems)), version };
+  }
+
+  /** The list changes whenever an item is added, edited or deleted */
+  private async fetchListVersion(listEndpoint: string): Promise<IMenuDataVersion> {
+    const response: SPHttpClientResponse = await this.spHttpClient.get(
+      `${listEndpoint}?$select=LastItemModifiedDate,LastItemDeletedDate`,
+      SPHttpClient.configurations.v1
+    );
+
+    if (!response.ok) {
+      throw new Error(`SharePoint list error: ${response.status} ${response.statusText}`);
+    }
+
+    const list = await response.json();
+    return { lastModified: `${list.LastItemModifiedDate}|${list.LastItemDeletedDate}` };
+  }
+
+  /**
+   * Builds the menu hierarchy from list items: items without a parent become navigation items,
+   * their children become links grouped into columns by the Column field, and deeper
+   * descendants become nested flyout links.
+   */
+  private buildMenuDataFromList(listItems: IMenuListItem[]): MenuData {
+    const enabledItems = listItems.filter(item => item.Enabled !== false);
+    enabledItems.sort((a, b) =>
+      (a.SortOrder || 0) - (b.SortOrder || 0) || (a.Title || '').localeCompare(b.Title || ''));
+
+    const childrenByParent: { [parentId: number]: IMenuListItem[] } = {};
+    const topLevelItems: IMenuListItem[] = [];
+    const itemsById: { [id: number]: IMenuListItem } = {};
+
+    enabledItems.forEach(item => {
+      itemsById[item.Id] = item;
+      if (item.ParentId) {
+        (childrenByParent[item.ParentId] = childrenByParent[item.ParentId] || []).push(item);
+      } else {
+        topLevelItems.push(item);
+      }
+    });
+
+    Object.keys(childrenByParent).forEach(parentId => {
+      if (!itemsById[Number(parentId)]) {
+        console.warn(`Skipping menu list items whose parent ${parentId} is missing or disabled`);
+      }
+    });
+
+    const buildMenuItem = (item: IMenuListItem, ancestors: number[]): MenuItem => {
+      const menuItem: MenuItem = { title: item.Title, href: this.getListItemUrl(item) };
+      const children = childrenByParent[item.Id];
+
+      if (children) {
+        if (ancestors.indexOf(item.Id) !== -1) {
+          console.warn(`Skipping children of "${item.Title}": its Parent lookup forms a cycle`);
+        } else {
+          menuItem.children = children.map(child => buildMenuItem(child, ancestors.concat(item.Id)));
+        }
+      }
+
+      return menuItem;
+    };
+
+    const navigation = topLevelItems.map((item): NavigationItem => {
+      const navigationItem: NavigationItem = { title: item.Title, href: this.getListItemUrl(item) };
+      const children = childrenByParent[item.Id];
+
+      if (children) {
+        const columns: MenuColumn[] = [];
+        const columnsByTitle: { [title: string]: MenuColumn } = {};
+
+        children.forEach(child => {
+          const columnTitle = child.Column || '';
+          let column = columnsByTitle[columnTitle];
+          if (!column) {
+            column = columnsByTitle[columnTitle] = { title: columnTitle, items: [] };
+            columns.push(column);
+          }
+          column.items.push(buildMenuItem(child, [item.Id]));
+        });
+
+        navigationItem.megaMenu = { columns };
+      }
+
+      return navigationItem;
+    });
+
+    return { navigation };
+  }
+
+  private getListItemUrl(item: IMenuListItem): string {
+    if (!item.Url) {
+      return '';
+    }
+    return typeof item.Url === 'string' ? item.Url : item.Url.Url;
+  }
+
+  private async fetchMenuDataFileAlternative(cachedVersion?: IMenuDataVersion): Promise<IMenuSourceResult | null> {
     // Alternative method: Get file information first, then content
     const fileInfoEndpoint = `${this.baseUrl}/_api/web/GetFileByServerRelativeUrl('/${this.documentLibrary}/${this.fileName}')`;
     
@@ -118,6 +869,11 @@ export class MegaMenuService {
     const fileInfo = await fileInfoResponse.json();
     console.log('File info received:', fileInfo);
 
+    const version: IMenuDataVersion = { etag: fileInfo.ETag, lastModified: fileInfo.TimeLastModified };
+    if (isSameVersion(cachedVersion, version)) {
+      return null;
+    }
+
     // Get file content using the server relative URL
     const contentEndpoint = `${this.baseUrl}/_api/web/GetFileByServerRelativeUrl('${fileInfo.ServerRelativeUrl}')/$value`;
     
@@ -135,305 +891,87 @@ export class MegaMenuService {
     const fileContent = await contentResponse.text();
     console.log('File content received via alternative method');
     
-    return this.parseMenuDataFromFile(fileContent);
+    return { data: this.parseMenuDataFromFile(fileContent, version), version };
   }
 
-  private parseMenuDataFromFile(fileContent: string): MenuData {
+  private parseMenuDataFromFile(fileContent: string, version?: IMenuDataVersion): MenuData {
     try {
-      console.log('Parsing menuData.ts file content...');
-      
-      // Clean up the TypeScript file content
-      let cleanContent = fileContent.trim();
-      
-      // Remove comments (both single-line and multi-line)
-      cleanContent = cleanContent
-        .replace(/\/\*[\s\S]*?\*\//g, '') // Remove /* */ comments
-        .replace(/\/\/.*$/gm, ''); // Remove // comments
-      
-      // Remove import statements
-      cleanContent = cleanContent.replace(/^import.*?;?\s*$/gm, '');
-      
-      // Remove interface and type definitions
-      cleanContent = cleanContent.replace(/^(export\s+)?(interface|type)\s+\w+.*?(?=^(export|interface|type|\w+\s*[=:])|$)/gms, '');
-      
-      // Find the export const menuData declaration
-      const exportMatch = cleanContent.match(/export\s+const\s+menuData\s*=\s*([\s\S]*?)(?:;?\s*$)/m);
-      
-      if (!exportMatch) {
-        throw new Error('Could not find "export const menuData" declaration in file');
-      }
-      
-      let dataString = exportMatch[1].trim();
-      
-      // Remove trailing semicolon if present
-      dataString = dataString.replace(/;$/, '');
-      
-      console.log('Extracted data string:', dataString.substring(0, 200) + '...');
-      
-      // Convert TypeScript/JavaScript object notation to valid JSON
-      const jsonString = this.convertToValidJSON(dataString);
-      
-      console.log('Converted to JSON format');
-      
-      // Parse the JSON
-      const parsedData = JSON.parse(jsonString);
-      
-      // Validate the structure
-      if (!parsedData || typeof parsedData !== 'object') {
-        throw new Error('Parsed data is not a valid object');
-      }
-      
-      if (!parsedData.navigation || !Array.isArray(parsedData.navigation)) {
-        throw new Error('Invalid menu data structure: missing or invalid navigation array');
-      }
-      
-      console.log('Successfully parsed menu data with', parsedData.navigation.length, 'navigation items');
-      
-      return parsedData as MenuData;
-      
+      const format = getMenuFileFormat(this.fileName);
+      console.log(`Parsing ${this.fileName} as ${format}...`);
+
+      const parsedData = parseMenuFile(fileContent, format);
+      return this.validateMenuData(parsedData);
     } catch (error) {
-      console.error('Error parsing menuData.ts file:', error);
-      console.log('Full file content for debugging:', fileContent);
-      throw new Error(`Failed to parse menu data file: ${error.message}`);
+      console.error(`Error parsing ${this.fileName}:`, error);
+      if (error instanceof MenuDataParseError) {
+        console.error(`${this.fileName}:${error.line}:${error.column}\n${error.frame}`);
+      }
+      throw new InvalidMenuFileError(`Failed to parse menu data file: ${error.message}`, version);
     }
   }
 
-  private convertToValidJSON(dataString: string): string {
-    // Handle object property names (add quotes if not already quoted)
-    let jsonString = dataString.replace(/([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:/g, '$1"$2":');
-    
-    // Convert single quotes to double quotes, but be careful with escaped quotes
-    jsonString = jsonString.replace(/'/g, '"');
-    
-    // Handle trailing commas (remove them)
-    jsonString = jsonString.replace(/,(\s*[}\]])/g, '$1');
-    
-    // Handle functions or undefined values (replace with null)
-    jsonString = jsonString.replace(/:\s*undefined\b/g, ': null');
-    
-    // Handle boolean values (ensure they're lowercase)
-    jsonString = jsonString.replace(/:\s*True\b/g, ': true');
-    jsonString = jsonString.replace(/:\s*False\b/g, ': false');
-    
-    return jsonString;
-  }
+  private validateMenuData(parsedData: any): MenuData {
+    const result = new MenuDataValidator(!!this.options.lenientValidation).validate(parsedData);
+    this.validationErrors = result.errors;
 
-  private getFallbackMenuData(): MenuData {
-    return {
-      navigation: [
-        {
-          title: "My Sites",
-          href: "",
-          megaMenu: {
-            columns: [
-              {
-                title: "",
-                items: [
-                  { title: "Academic Affairs Staff Workspace", href: "/sites/academicaffairsworkspace" },
-                  { title: "Adjunct Faculty Workspace", href: "/sites/adjunctfacultyworkspace" },
-                  { title: "Admitted J.D. Student Portal", href: "/sites/admittedjdstudentportal" },
-                  { title: "Bar Exam Info", href: "/sites/barexaminfo" },
-                  { title: "Bar Exam Results", href: "/sites/barexamresults" },
-                  { title: "CJEC Post Grad Judicial Clerkship for J.D. Students and Alumni", href: "/sites/postgraduatejudicialclerkships" },
-                  { title: "CJEC Workspace for Administrators", href: "/sites/cjecworkspace" },
-                  { title: "Climate and Sustainability", href: "/sites/clesi" },
-                  { title: "Clinic Staff and Faculty Workspace", href: "/sites/clinicstaffandfacultyworkspace" },
-                  { title: "Clinics", href: "/sites/clinics" },
-                  { title: "CMS Workspace", href: "/sites/cms" },
-                  { title: "Course Evaluations", href: "/sites/courseevaluations" },
-                  { title: "CPC Career Services for Current J.D. Students", href: "/sites/careerservicesforcurrentjdstudents" },
-                  { title: "CPC Career Services for Current J.D. Students", href: "/sites/careerservicesforcurrentjdstudents_old" }
-                ]
-              },
-              {
-                title: "",
-                items: [
-                  { title: "CPC Career Services for J.D. Alumni", href: "/sites/careerservicesforjdalumni" },
-                  { title: "CPC Career Services for J.D. Alumni", href: "/sites/careerservicesforjdalumni_old" },
-                  { title: "CPC Staff Workspace", href: "/sites/cpcworkspace" },
-                  { title: "DAUR Staff Workspace", href: "/sites/developmentworkspace" },
-                  { title: "Disability Services", href: "/sites/disabilityservices" },
-                  { title: "ELR Volume 34 Workspace (deactivated)", href: "/sites/elrvolume34" },
-                  { title: "ELR Volume 33 Workspace", href: "/sites/elrvolume33" },
-                  { title: "Event Planning", href: "/sites/eventplanning" },
-                  { title: "Exam Schedules", href: "/sites/examschedules" },
-                  { title: "Exam4 Registration, Proctoring, and Scheduling App", href: "/sites/erpsa" },
-                  { title: "Examinations", href: "/sites/examinations" },
-                  { title: "Externship Evaluations", href: "/sites/externshipevaluations" },
-                  { title: "Faculty Connect", href: "/sites/facultyconnect" },
-                  { title: "Faculty Support Workspace", href: "/sites/facultysupport" }
-                ]
-              },
-              {
-                title: "",
-                items: [
-                  { title: "Financial Aid Resources", href: "/sites/financialaidresources" },
-                  { title: "Financial Aid Staff Workspace", href: "/sites/financialaidworkspace" },
-                  { title: "Flex Time Manager", href: "/sites/comptimemanager" },
-                  { title: "Forms Central", href: "/sites/formscentral" },
-                  { title: "Full-time Faculty Workspace", href: "/sites/fulltimefacultyworkspace" },
-                  { title: "Fundamental Lawyering Skills", href: "/sites/fundamentallawyeringskills" },
-                  { title: "Grading", href: "/sites/grading" },
-                  { title: "Graduate Programs (LL.M., M.S.L., S.J.D.)", href: "/sites/nonjdstudentresources" },
-                  { title: "Help Desk Staff Workspace", href: "/sites/helpdeskworkspace" },
-                  { title: "House 1/2", href: "/sites/house1-2" },
-                  { title: "House 3/4", href: "/sites/house3-4" },
-                  { title: "House 5/6", href: "/sites/house5-6" },
-                  { title: "House 7/8", href: "/sites/house7-8" },
-                  { title: "House 9 (Evening Division)", href: "/sites/house-evedivision" },
-                  { title: "House 9/10 (deactivated)", href: "/sites/house9-10" },
-                  { title: "ILJ Volume 45 Workspace", href: "/sites/iljvolume45" }
-                ]
-              },
-              {
-                title: "",
-                items: [
-                  { title: "ILJ Volume 46 Workspace", href: "/sites/iljvolume46" },
-                  { title: "ILJ Volume 47 Workspace", href: "/sites/iljvolume47" },
-                  { title: "ILJ Volume 48 Workspace", href: "/sites/iljvolume48" },
-                  { title: "International Programs Staff Workspace", href: "/sites/internationalprogramsworkspace" },
-                  { title: "IPLJ Volume XXXII Workspace (deactivated)", href: "/sites/ipljvolumexxxii" },
-                  { title: "IPLJ Volume XXXIII Workspace (deactivated)", href: "/sites/ipljvolumexxxiii" },
-                  { title: "J.D. Admissions Staff Workspace", href: "/sites/jdadmissionsworkspace" },
-                  { title: "J.D. Concentrations", href: "/sites/jdconcentrations" },
-                  { title: "J.D. Curriculum Guide", href: "/sites/jdcurriculumguide" },
-                  { title: "J.D. Externships", href: "/sites/jdexternships" },
-                  { title: "J.D. Graduation Audit", href: "/sites/jdgraduationaudit" },
-                  { title: "JCFL Volume XXIX Workspace", href: "/sites/jcflvolumexxix" },
-                  { title: "JCFL Volume XXVII Workspace", href: "/sites/jcflvolumexxvii" },
-                  { title: "JCFL Volume XXVIII Workspace", href: "/sites/jcflvolumexxviii" }
-                ]
-              },
-              {
-                title: "",
-                items: [
-                  { title: "JCFL Volume XXX Workspace", href: "/sites/jcflvolumexxx" },
-                  { title: "Legal English Institute (deactivated)", href: "/sites/legalenglishinstitute" },
-                  { title: "Legal Writing and Lawyering Staff Workspace", href: "/sites/legalwritingworkspace" },
-                  { title: "Marcomm Staff Workspace", href: "/sites/marcomstaffworkspace" },
-                  { title: "Mental Health and Wellness Resources", href: "/sites/mentalhealthandwellness" },
-                  { title: "Named Scholarships Workspace", href: "/sites/namedscholarships" },
-                  { title: "Office of Finance Staff Workspace", href: "/sites/financeworkspace" },
-                  { title: "Office of Professionalism", href: "/sites/professionalism" },
-                  { title: "Office of Student Affairs Staff Workspace", href: "/sites/officeofstudentaffairsworkspace" },
-                  { title: "OPP Staff Workspace", href: "/sites/oppworkspace" },
-                  { title: "PIRC Staff Workspace", href: "/sites/pircstaffworkspace" },
-                  { title: "Pro Bono Scholars Program", href: "/sites/probonoscholarsprogram" },
-                  { title: "Professionalism Staff Workspace", href: "/sites/professionalismstaff" },
-                  { title: "Public Interest Resource Center", href: "/sites/publicinterestresourcecenter" },
-                  { title: "Public Interest Resource Center", href: "/sites/publicinterestresourcecenter_old" }
-                ]
-              }
-            ]
-          }
-        },
-        {
-          title: "Forms Central",
-          href: "/sites/formscentral"
-        },
-        {
-          title: "Library",
-          href: "https://library.law.fordham.edu/"
-        },
-        {
-          title: "Apps",
-          href: "",
-          megaMenu: {
-            columns: [
-              {
-                title: "Global apps",
-                items: [
-                  { title: "25 Live", href: "https://25live.collegenet.com/25live/data/fordham/run/login.shibboleth?redirect=https://25live.collegenet.com/fordham/" },
-                  { title: "Blackboard", href: "https://fordham.blackboard.com/" },
-                  { title: "Canva", href: "/SitePages/Canva.aspx?web=1" },
-                  { title: "Echo360", href: "http://bit.ly/3pcUJWh" },
-                  { title: "Fordham U Apps", href: "https://www.fordham.edu/my-apps/" },
-                  { title: "GMail", href: "https://gmail.fordham.edu/" },
-                  { title: "Google Drive", href: "https://drive.google.com/a/fordham.edu" },
-                  { title: "Grammarly", href: "https://www.grammarly.com/enterprise/signup" },
-                  { title: "Microsoft Office 365", href: "https://login.microsoftonline.com/login.srf?wa=wsignin1.0&amp%3bwhr=fordham.edu" },
-                  { title: "Power BI", href: "https://app.powerbi.com/" },
-                  { title: "Qualtrics", href: "https://fordham.qualtrics.com/" },
-                  { title: "Seating Charts", href: "https://zdapi.appointlink.com/ZDConvert/AutoLaunch/2990/0/0/x7fg/login=shib%7cidp=https:%28s%29%28s%29loginp.fordham.edu%28s%29idp%28s%29shibboleth%7czdapp=zd" },
-                  { title: "TWEN", href: "https://lawschool.thomsonreuters.com/ls-login.php" },
-                  { title: "Web Print Portal", href: "https://print.fordham.edu/" }
-                ]
-              },
-              {
-                title: "Academic apps",
-                items: [
-                  { title: "Anonymous Course Evaluations", href: "/sites/courseevaluations" },
-                  { title: "Bookstore", href: "https://urldefense.proofpoint.com/v2/url?u=https-3A__sso.bncollege.com_bes-2Dsp_bessso_saml_fordhamedu_aip_logon&d=DwMF-g&c=aqMfXOEvEJQh2iQMCb7Wy8l0sPnURkcqADc2guUW8IM&r=0d_-pEHmOTsg1xcUtiEH_76ojRaVa2Ag-v8ew8GAJxg&m=dEBVCNKNONg5RrRMPc3Mf3Pqjti0eG_FTKB0cQaSnuw&s=19DiuVpjLa9ttsjIgm2eMN4-y94mLc2Q9Lle4Y6Q5cM&e=" },
-                  { title: "Class Schedules", href: "https://myweb.lawnet.fordham.edu/sites/classschedules" },
-                  { title: "Course Syllabi and First Assignments", href: "/SitePages/Course-Syllabi-and-First-Assignments.aspx" },
-                  { title: "Examinations (Exam4)", href: "/sites/examinations" }
-                ]
-              },
-              {
-                title: "Student apps",
-                items: [
-                  { title: "Faculty Connect", href: "/SitePages/Faculty-Connect.aspx" },
-                  { title: "Lockers", href: "/SitePages/Student-Lockers.aspx?web=1" },
-                  { title: "My Bill Suite", href: "http://bit.ly/2GB2wZw" },
-                  { title: "Student Registration", href: "https://reg-prod.ec.fordham.edu/StudentRegistrationSsb/ssb/registration" },
-                  { title: "Student Services", href: "https://studentssb-prod.ec.fordham.edu/StudentSelfService" }
-                ]
-              },
-              {
-                title: "Staff apps",
-                items: [
-                  { title: "Employee Services", href: "https://www.fordham.edu/my-pages/employee" },
-                  { title: "Clerkship Database", href: "/sites/clerkship/SitePages/Clerkship-Applicants.aspx" },
-                  { title: "Clerskship Interview Feedback", href: "/sites/cjecworkspace/SitePages/Interview-Feedback-Admin.aspx" },
-                  { title: "Course Tools", href: "/SitePages/Course-Tools.aspx" }
-                ]
-              }
-            ]
-          }
-        },
-        {
-          title: "IT Support Portal",
-          href: "https://fordhamlaw.freshservice.com/support/home"
-        }
-      ]
-    };
+    if (!result.data) {
+      throw new Error(`Invalid menu data structure:\n${MenuDataValidator.formatErrors(result.errors)}`);
+    }
+
+    if (result.errors.length > 0) {
+      console.warn(`Dropped invalid menu entries:\n${MenuDataValidator.formatErrors(result.errors)}`);
+    }
+
+    console.log('Successfully parsed menu data with', result.data.navigation.length, 'navigation items');
+    return result.data;
   }
 
-  private cacheMenuData(data: MenuData): void {
-    const cacheData = {
-      data,
-      timestamp: Date.now(),
-      expiry: Date.now() + this.cacheExpiry
-    };
-    
+  private async cacheMenuData(data: MenuData, source: MenuDataSourceType, version?: IMenuDataVersion): Promise<void> {
     try {
-      localStorage.setItem(this.cacheKey, JSON.stringify(cacheData));
+      const timestamp = Date.now();
+      const expiresAt = getNextVisibilityChange(data, timestamp);
+      await this.cache.set({ data, source, timestamp, version, expiresAt: expiresAt !== null ? expiresAt : undefined });
       console.log('Menu data cached successfully');
     } catch (error) {
       console.warn('Failed to cache menu data:', error);
     }
   }
 
-  private getCachedMenuData(): MenuData | null {
+  private async getInvalidFileVersion(): Promise<IMenuDataVersion | undefined> {
+    try {
+      return (await this.cache.getInvalidFileVersion()) || undefined;
+    } catch (error) {
+      console.warn('Failed to read the cached invalid menu file version:', error);
+      return undefined;
+    }
+  }
+
+  private async setInvalidFileVersion(version: IMenuDataVersion): Promise<void> {
+    try {
+      await this.cache.setInvalidFileVersion(version);
+    } catch (error) {
+      console.warn('Failed to cache the invalid menu file version:', error);
+    }
+  }
+
+  private async getCachedMenuData(): Promise<ICachedMenuData | null> {
     try {
-      const cached = localStorage.getItem(this.cacheKey);
+      const cached = await this.cache.get();
       if (!cached) {
         console.log('No cached menu data found');
         return null;
       }
 
-      const cacheData = JSON.parse(cached);
-      if (Date.now() > cacheData.expiry) {
-        localStorage.removeItem(this.cacheKey);
-        console.log('Cached menu data expired, removed from cache');
+      if (!cached.timestamp || Date.now() - cached.timestamp > this.maxStaleness) {
+        await this.cache.remove();
+        console.log('Cached menu data too old to show, removed from cache');
         return null;
       }
 
       console.log('Found valid cached menu data');
-      return cacheData.data;
+      return cached;
     } catch (error) {
       console.warn('Failed to retrieve cached menu data:', error);
-      localStorage.removeItem(this.cacheKey); // Clean up corrupted cache
       return null;
     }
   }
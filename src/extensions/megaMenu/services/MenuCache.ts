@@ -0,0 +1,140 @@
+import { MenuData } from './MegaMenuService';
+import { IMenuDataVersion, MenuDataSourceType } from './MenuDataSources';
+import { IMenuCacheStorage } from './MenuCacheStorage';
+
+/** Bump whenever MenuData or ICachedMenuData changes shape, so older cached menus are ignored */
+export const MENU_CACHE_SCHEMA_VERSION: number = 1;
+
+export interface ICachedMenuData {
+  data: MenuData;
+  source: MenuDataSourceType;
+  /** When the cached copy was last loaded or confirmed unchanged */
+  timestamp: number;
+  version?: IMenuDataVersion;
+  /** When a scheduled entry next appears or disappears; the cached copy is revalidated from then on */
+  expiresAt?: number;
+}
+
+export interface IMenuCacheScope {
+  webUrl: string;
+  documentLibrary: string;
+  fileName: string;
+}
+
+const KEY_PREFIX = 'spfx-mega-menu:';
+/** Cache keys, most recently used first */
+const LRU_INDEX_KEY = `${KEY_PREFIX}lru`;
+/** Keys used before cache entries were scoped */
+const LEGACY_KEYS = ['spfx-mega-menu-data'];
+/** Suffix of the key that records a menu file version none of whose earlier versions could be read */
+const INVALID_FILE_SUFFIX = '#invalid';
+
+/**
+ * Caches the menu of one site, library and file. Entries of other menus are kept until more
+ * than `maxEntries` exist, then the least recently used ones are evicted, together with
+ * entries written with another schema version.
+ */
+export class MenuCache {
+  private key: string;
+
+  constructor(private storage: IMenuCacheStorage, scope: IMenuCacheScope, private maxEntries: number = 10) {
+    const scopePath = [scope.webUrl.replace(/\/+$/, '').toLowerCase(), scope.documentLibrary, scope.fileName]
+      .map(part => encodeURIComponent(part))
+      .join('/');
+    this.key = `${KEY_PREFIX}v${MENU_CACHE_SCHEMA_VERSION}:${scopePath}`;
+  }
+
+  public async get(): Promise<ICachedMenuData | null> {
+    const value = await this.storage.getItem(this.key);
+    if (!value) {
+      return null;
+    }
+
+    let entry: ICachedMenuData;
+    try {
+      entry = JSON.parse(value);
+    } catch (error) {
+      console.warn('Removing corrupted cached menu data:', error);
+      await this.remove();
+      return null;
+    }
+
+    await this.touch();
+    return entry;
+  }
+
+  public async set(entry: ICachedMenuData): Promise<void> {
+    await this.storage.setItem(this.key, JSON.stringify(entry));
+    await this.touch();
+    await this.evict();
+  }
+
+  public async remove(): Promise<void> {
+    await this.storage.removeItem(this.key);
+    await this.storage.removeItem(this.key + INVALID_FILE_SUFFIX);
+    const index = await this.readIndex();
+    await this.writeIndex(index.filter(key => key !== this.key));
+  }
+
+  /** The menu file version last found to be invalid with no readable earlier version, if any */
+  public async getInvalidFileVersion(): Promise<IMenuDataVersion | null> {
+    const value = await this.storage.getItem(this.key + INVALID_FILE_SUFFIX);
+    try {
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  public async setInvalidFileVersion(version: IMenuDataVersion): Promise<void> {
+    await this.storage.setItem(this.key + INVALID_FILE_SUFFIX, JSON.stringify(version));
+    await this.touch();
+    await this.evict();
+  }
+
+  private async touch(): Promise<void> {
+    const index = await this.readIndex();
+    if (index[0] !== this.key) {
+      await this.writeIndex([this.key].concat(index.filter(key => key !== this.key)));
+    }
+  }
+
+  private async evict(): Promise<void> {
+    const currentPrefix = `${KEY_PREFIX}v${MENU_CACHE_SCHEMA_VERSION}:`;
+    const index = (await this.readIndex()).filter(key => key.indexOf(currentPrefix) === 0);
+    const retained = index.slice(0, this.maxEntries);
+
+    const evicted = (await this.storage.keys()).filter(key => {
+      if (LEGACY_KEYS.indexOf(key) !== -1) {
+        return true;
+      }
+      const scopeKey = key.substring(key.length - INVALID_FILE_SUFFIX.length) === INVALID_FILE_SUFFIX
+        ? key.substring(0, key.length - INVALID_FILE_SUFFIX.length)
+        : key;
+      // Entries missing from the index were left behind by an older version or a lost index
+      return key.indexOf(KEY_PREFIX) === 0 && key !== LRU_INDEX_KEY && retained.indexOf(scopeKey) === -1;
+    });
+
+    for (const key of evicted) {
+      console.log('Evicting cached menu data:', key);
+      await this.storage.removeItem(key);
+    }
+    if (retained.length !== index.length || evicted.length > 0) {
+      await this.writeIndex(retained);
+    }
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const value = await this.storage.getItem(LRU_INDEX_KEY);
+    try {
+      const index = value ? JSON.parse(value) : [];
+      return index instanceof Array ? index : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private writeIndex(index: string[]): Promise<void> {
+    return this.storage.setItem(LRU_INDEX_KEY, JSON.stringify(index));
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * A key-value store for cached menus. Every operation is asynchronous so that
+ * IndexedDB can be used as well as the synchronous Web Storage APIs.
+ */
+export interface IMenuCacheStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export type MenuCacheStorageType = 'localStorage' | 'sessionStorage' | 'indexedDB';
+
+/** Stores cached menus in localStorage or sessionStorage */
+export class WebStorageCacheStorage implements IMenuCacheStorage {
+  constructor(private storage: Storage) {
+  }
+
+  public getItem(key: string): Promise<string | null> {
+    return this.run(() => this.storage.getItem(key));
+  }
+
+  public setItem(key: string, value: string): Promise<void> {
+    return this.run(() => this.storage.setItem(key, value));
+  }
+
+  public removeItem(key: string): Promise<void> {
+    return this.run(() => this.storage.removeItem(key));
+  }
+
+  public keys(): Promise<string[]> {
+    return this.run(() => {
+      const keys: string[] = [];
+      for (let i = 0; i < this.storage.length; i++) {
+        keys.push(this.storage.key(i));
+      }
+      return keys;
+    });
+  }
+
+  /** Turns exceptions, such as a full quota, into rejections */
+  private run<T>(operation: () => T): Promise<T> {
+    try {
+      return Promise.resolve(operation());
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+}
+
+const OBJECT_STORE = 'entries';
+
+/** Stores cached menus in an IndexedDB database, which allows much larger menus than Web Storage */
+export class IndexedDbCacheStorage implements IMenuCacheStorage {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = 'spfx-mega-menu') {
+  }
+
+  public getItem(key: string): Promise<string | null> {
+    return this.request<string | undefined>('readonly', store => store.get(key))
+      .then(value => value === undefined ? null : value);
+  }
+
+  public setItem(key: string, value: string): Promise<void> {
+    return this.request('readwrite', store => store.put(value, key)).then(() => undefined);
+  }
+
+  public removeItem(key: string): Promise<void> {
+    return this.request('readwrite', store => store.delete(key)).then(() => undefined);
+  }
+
+  public keys(): Promise<string[]> {
+    // Walks a cursor because Internet Explorer has no getAllKeys
+    return this.open().then(database => new Promise<string[]>((resolve, reject) => {
+      const keys: string[] = [];
+      const request = database.transaction(OBJECT_STORE, 'readonly').objectStore(OBJECT_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor: IDBCursorWithValue = request.result;
+        if (cursor) {
+          keys.push(String(cursor.key));
+          cursor.continue();
+        } else {
+          resolve(keys);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    }));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry when the database cannot be opened
+      this.database.catch(() => this.database = null);
+    }
+    return this.database;
+  }
+
+  private request<T>(mode: 'readonly' | 'readwrite', operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return this.open().then(database => new Promise<T>((resolve, reject) => {
+      const request = operation(database.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+  }
+}
+
+/**
+ * Creates the storage named by the `cacheStorage` customizer property, defaulting to localStorage.
+ * Falls back to localStorage when IndexedDB is not available, as in some private browsing modes.
+ */
+export function createMenuCacheStorage(type?: string): IMenuCacheStorage {
+  switch ((type || '').toLowerCase()) {
+    case 'sessionstorage':
+      return new WebStorageCacheStorage(sessionStorage);
+    case 'indexeddb':
+      if (typeof indexedDB !== 'undefined') {
+        return new IndexedDbCacheStorage();
+      }
+      console.warn('IndexedDB is not available, caching the menu in localStorage');
+      return new WebStorageCacheStorage(localStorage);
+    default:
+      if (type && type.toLowerCase() !== 'localstorage') {
+        console.warn(`Unknown menu cache storage "${type}", using localStorage`);
+      }
+      return new WebStorageCacheStorage(localStorage);
+  }
+}
@@ -0,0 +1,976 @@
+/**
+ * Lexer and parser for the subset of TypeScript/JavaScript used by menuData.ts files.
+ *
+ * Supported syntax:
+ * - `import` statements, `interface` and `type` declarations (skipped)
+ * - `const`/`let`/`var` declarations with optional type annotations
+ * - object and array literals with unquoted, quoted, numeric and computed keys, trailing commas and spread
+ * - single, double and template strings (with `${...}` substitutions), numbers, booleans, `null` and `undefined`
+ * - references to earlier top-level constants, member access and `+` concatenation
+ * - `as const`, `as Type`, `satisfies Type` and `!` suffixes
+ *
+ * The exported `menuData` constant (or the `export default` value) is evaluated to a plain value.
+ * Anything else, like functions or calls, is reported as a MenuDataParseError with a line and column.
+ */
+
+import { MenuError } from './MenuError';
+
+export class MenuDataParseError extends MenuError {
+  public line: number;
+  public column: number;
+  public frame: string;
+
+  constructor(message: string, line: number, column: number, frame: string) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'MenuDataParseError';
+    this.line = line;
+    this.column = column;
+    this.frame = frame;
+  }
+}
+
+/** Creates a MenuDataParseError for a character offset in the given file content */
+export function createParseError(text: string, message: string, offset: number): MenuDataParseError {
+  return new SourceText(text).error(message, offset);
+}
+
+type TokenType = 'punctuator' | 'string' | 'template' | 'number' | 'identifier' | 'eof';
+
+interface ITemplatePart {
+  cooked: string;
+  expressionStart: number;
+  expressionEnd: number;
+}
+
+interface IToken {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+  /** Whether a line break separates this token from the previous one */
+  newLineBefore: boolean;
+  /** Cooked string value for 'string' tokens and the leading text for 'template' tokens */
+  text?: string;
+  numberValue?: number;
+  templateParts?: ITemplatePart[];
+}
+
+const PUNCTUATORS: string[] = ['...', '=>', '{', '}', '[', ']', '(', ')', ',', ':', ';', '=', '<', '>', '.', '|', '&', '?', '!', '+', '-', '*', '/', '@'];
+
+const STATEMENT_KEYWORDS: string[] = ['export', 'import', 'const', 'let', 'var', 'interface', 'type', 'declare'];
+
+class SourceText {
+  private lineStarts: number[] = [0];
+
+  constructor(public readonly text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text.charAt(i) === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  public error(message: string, offset: number): MenuDataParseError {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const lineStart = this.lineStarts[low];
+    const lineEnd = low + 1 < this.lineStarts.length ? this.lineStarts[low + 1] - 1 : this.text.length;
+    const column = offset - lineStart + 1;
+    const sourceLine = this.text.substring(lineStart, lineEnd).replace(/\r$/, '');
+    const frame = `${sourceLine}\n${new Array(column).join(' ')}^`;
+
+    return new MenuDataParseError(message, low + 1, column, frame);
+  }
+}
+
+class Lexer {
+  private pos: number;
+
+  constructor(private source: SourceText, start: number, private end: number) {
+    this.pos = start;
+  }
+
+  public tokenize(): IToken[] {
+    const tokens: IToken[] = [];
+    let newLineBefore = this.skipTrivia();
+
+    while (this.pos < this.end) {
+      const token = this.readToken();
+      token.newLineBefore = newLineBefore;
+      tokens.push(token);
+      newLineBefore = this.skipTrivia();
+    }
+
+    tokens.push({ type: 'eof', value: '', start: this.end, end: this.end, newLineBefore: true });
+    return tokens;
+  }
+
+  private peekChar(offset: number = 0): string {
+    const index = this.pos + offset;
+    return index < this.end ? this.source.text.charAt(index) : '';
+  }
+
+  /** Skips whitespace and comments, returning whether a line break was crossed */
+  private skipTrivia(): boolean {
+    let newLine = false;
+
+    while (this.pos < this.end) {
+      const ch = this.peekChar();
+
+      if (ch === '\n') {
+        newLine = true;
+        this.pos++;
+      } else if (/\s/.test(ch) || ch === '\uFEFF') {
+        this.pos++;
+      } else if (ch === '/' && this.peekChar(1) === '/') {
+        while (this.pos < this.end && this.peekChar() !== '\n') {
+          this.pos++;
+        }
+      } else if (ch === '/' && this.peekChar(1) === '*') {
+        const closing = this.source.text.indexOf('*/', this.pos + 2);
+        if (closing === -1 || closing + 2 > this.end) {
+          throw this.source.error('Unterminated comment', this.pos);
+        }
+        if (this.source.text.substring(this.pos, closing).indexOf('\n') !== -1) {
+          newLine = true;
+        }
+        this.pos = closing + 2;
+      } else {
+        break;
+      }
+    }
+
+    return newLine;
+  }
+
+  private readToken(): IToken {
+    const start = this.pos;
+    const ch = this.peekChar();
+
+    if (ch === '"' || ch === '\'') {
+      const text = this.readString(ch);
+      return { type: 'string', value: this.source.text.substring(start, this.pos), text, start, end: this.pos, newLineBefore: false };
+    }
+
+    if (ch === '`') {
+      const templateParts = this.readTemplate();
+      return { type: 'template', value: this.source.text.substring(start, this.pos), templateParts, start, end: this.pos, newLineBefore: false };
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(this.peekChar(1)))) {
+      return this.readNumber();
+    }
+
+    if (/[A-Za-z_$]/.test(ch) || ch.charCodeAt(0) > 127) {
+      while (this.pos < this.end && (/[A-Za-z0-9_$]/.test(this.peekChar()) || this.peekChar().charCodeAt(0) > 127)) {
+        this.pos++;
+      }
+      return { type: 'identifier', value: this.source.text.substring(start, this.pos), start, end: this.pos, newLineBefore: false };
+    }
+
+    for (const punctuator of PUNCTUATORS) {
+      if (this.source.text.substr(this.pos, punctuator.length) === punctuator) {
+        this.pos += punctuator.length;
+        return { type: 'punctuator', value: punctuator, start, end: this.pos, newLineBefore: false };
+      }
+    }
+
+    throw this.source.error(`Unexpected character "${ch}"`, start);
+  }
+
+  private readNumber(): IToken {
+    const start = this.pos;
+    const rest = this.source.text.substring(this.pos, this.end);
+    const match = rest.match(/^0[xX][0-9a-fA-F_]+/) ||
+      rest.match(/^0[bB][01_]+/) ||
+      rest.match(/^0[oO][0-7_]+/) ||
+      rest.match(/^(?:[0-9][0-9_]*)?\.?[0-9_]*(?:[eE][+-]?[0-9_]+)?/);
+    const raw = match[0];
+    this.pos += raw.length;
+
+    if (/[A-Za-z_$]/.test(this.peekChar())) {
+      throw this.source.error(`Invalid number "${raw}${this.peekChar()}"`, start);
+    }
+
+    const digits = raw.replace(/_/g, '');
+    let numberValue: number;
+    if (/^0[bB]/.test(digits)) {
+      numberValue = parseInt(digits.substring(2), 2);
+    } else if (/^0[oO]/.test(digits)) {
+      numberValue = parseInt(digits.substring(2), 8);
+    } else {
+      numberValue = Number(digits);
+    }
+
+    if (isNaN(numberValue)) {
+      throw this.source.error(`Invalid number "${raw}"`, start);
+    }
+
+    return { type: 'number', value: raw, numberValue, start, end: this.pos, newLineBefore: false };
+  }
+
+  private readString(quote: string): string {
+    const start = this.pos;
+    let result = '';
+    this.pos++;
+
+    while (true) {
+      if (this.pos >= this.end) {
+        throw this.source.error('Unterminated string', start);
+      }
+
+      const ch = this.peekChar();
+      if (ch === quote) {
+        this.pos++;
+        return result;
+      }
+      if (ch === '\n' || ch === '\r') {
+        throw this.source.error('Unterminated string (line breaks must be escaped)', start);
+      }
+      if (ch === '\\') {
+        result += this.readEscape();
+      } else {
+        result += ch;
+        this.pos++;
+      }
+    }
+  }
+
+  private readTemplate(): ITemplatePart[] {
+    const start = this.pos;
+    const parts: ITemplatePart[] = [];
+    let cooked = '';
+    this.pos++;
+
+    while (true) {
+      if (this.pos >= this.end) {
+        throw this.source.error('Unterminated template literal', start);
+      }
+
+      const ch = this.peekChar();
+      if (ch === '`') {
+        this.pos++;
+        parts.push({ cooked, expressionStart: -1, expressionEnd: -1 });
+        return parts;
+      }
+      if (ch === '\\') {
+        cooked += this.readEscape();
+      } else if (ch === '$' && this.peekChar(1) === '{') {
+        this.pos += 2;
+        const expressionStart = this.pos;
+        this.skipBalanced('}');
+        parts.push({ cooked, expressionStart, expressionEnd: this.pos });
+        this.pos++;
+        cooked = '';
+      } else if (ch === '\r') {
+        // Template literals normalize CRLF to LF
+        this.pos++;
+      } else {
+        cooked += ch;
+        this.pos++;
+      }
+    }
+  }
+
+  /** Advances to the closing character of a `${...}` substitution, stepping over nested literals */
+  private skipBalanced(closing: string): void {
+    const start = this.pos;
+    let depth = 0;
+
+    while (this.pos < this.end) {
+      this.skipTrivia();
+      const ch = this.peekChar();
+
+      if (ch === closing && depth === 0) {
+        return;
+      }
+
+      if (ch === '"' || ch === '\'') {
+        this.readString(ch);
+      } else if (ch === '`') {
+        this.readTemplate();
+      } else {
+        if (ch === '{') {
+          depth++;
+        } else if (ch === '}') {
+          depth--;
+        }
+        this.pos++;
+      }
+    }
+
+    throw this.source.error('Unterminated template substitution', start);
+  }
+
+  private readEscape(): string {
+    const start = this.pos;
+    this.pos++;
+    const ch = this.peekChar();
+    this.pos++;
+
+    switch (ch) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'v': return '\v';
+      case '0':
+        if (/[0-9]/.test(this.peekChar())) {
+          throw this.source.error('Octal escape sequences are not allowed', start);
+        }
+        return '\0';
+      case 'x': {
+        const hex = this.source.text.substr(this.pos, 2);
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+          throw this.source.error('Invalid hexadecimal escape sequence', start);
+        }
+        this.pos += 2;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      case 'u': {
+        let hex: string;
+        if (this.peekChar() === '{') {
+          const closing = this.source.text.indexOf('}', this.pos);
+          hex = closing === -1 ? '' : this.source.text.substring(this.pos + 1, closing);
+          this.pos = closing + 1;
+          if (!/^[0-9a-fA-F]{1,6}$/.test(hex)) {
+            throw this.source.error('Invalid Unicode escape sequence', start);
+          }
+        } else {
+          hex = this.source.text.substr(this.pos, 4);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            throw this.source.error('Invalid Unicode escape sequence', start);
+          }
+          this.pos += 4;
+        }
+        return codePointToString(parseInt(hex, 16));
+      }
+      case '\r':
+        if (this.peekChar() === '\n') {
+          this.pos++;
+        }
+        return '';
+      case '\n':
+      case '\u2028':
+      case '\u2029':
+        // Line continuation
+        return '';
+      case '':
+        throw this.source.error('Unterminated escape sequence', start);
+      default:
+        return ch;
+    }
+  }
+}
+
+function codePointToString(codePoint: number): string {
+  if (codePoint <= 0xFFFF) {
+    return String.fromCharCode(codePoint);
+  }
+  const offset = codePoint - 0x10000;
+  return String.fromCharCode(0xD800 + (offset >> 10), 0xDC00 + (offset & 0x3FF));
+}
+
+export class MenuDataParser {
+  private source: SourceText;
+  private tokens: IToken[];
+  private index: number = 0;
+  private constants: { [name: string]: any } = {};
+  private exportedNames: string[] = [];
+  private defaultExport: { value: any } | undefined;
+
+  constructor(sourceText: string) {
+    this.source = new SourceText(sourceText);
+  }
+
+  /**
+   * Parses the module and returns the value of its `menuData` export.
+   * Throws a MenuDataParseError pointing at the offending token when the file cannot be read.
+   */
+  public parse(exportName: string = 'menuData'): any {
+    this.tokens = new Lexer(this.source, 0, this.source.text.length).tokenize();
+    this.index = 0;
+
+    while (this.peek().type !== 'eof') {
+      this.parseStatement();
+    }
+
+    if (this.exportedNames.indexOf(exportName) !== -1) {
+      return this.constants[exportName];
+    }
+    if (this.defaultExport) {
+      return this.defaultExport.value;
+    }
+    if (this.constants.hasOwnProperty(exportName)) {
+      return this.constants[exportName];
+    }
+
+    throw this.source.error(`Could not find "export const ${exportName}" declaration in file`, 0);
+  }
+
+  private peek(offset: number = 0): IToken {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): IToken {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isPunctuator(value: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private isIdentifier(value: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'identifier' && token.value === value;
+  }
+
+  private expectPunctuator(value: string): IToken {
+    if (!this.isPunctuator(value)) {
+      throw this.unexpected(`Expected "${value}"`);
+    }
+    return this.next();
+  }
+
+  private expectIdentifier(): IToken {
+    if (this.peek().type !== 'identifier') {
+      throw this.unexpected('Expected an identifier');
+    }
+    return this.next();
+  }
+
+  private expectEnd(): void {
+    if (this.peek().type !== 'eof') {
+      throw this.unexpected('Expected end of file');
+    }
+  }
+
+  private unexpected(expectation?: string): MenuDataParseError {
+    const token = this.peek();
+    let found = `"${token.value}"`;
+    if (token.type === 'eof') {
+      found = 'end of file';
+    } else if (token.type === 'string' || token.type === 'template') {
+      found = `string ${token.value}`;
+    }
+    const message = expectation ? `${expectation} but found ${found}` : `Unexpected ${found}`;
+    return this.source.error(message, token.start);
+  }
+
+  /** Consumes an optional semicolon, relying on automatic semicolon insertion otherwise */
+  private endStatement(): void {
+    if (this.isPunctuator(';')) {
+      this.next();
+      return;
+    }
+
+    const token = this.peek();
+    if (token.type !== 'eof' && !token.newLineBefore && !this.isPunctuator('}')) {
+      throw this.unexpected('Expected ";"');
+    }
+  }
+
+  private parseStatement(): void {
+    const token = this.peek();
+
+    if (this.isPunctuator(';')) {
+      this.next();
+      return;
+    }
+
+    if (token.type !== 'identifier') {
+      throw this.unexpected();
+    }
+
+    switch (token.value) {
+      case 'import':
+        this.skipImport();
+        return;
+      case 'interface':
+        this.skipInterface();
+        return;
+      case 'type':
+        this.skipTypeAlias();
+        return;
+      case 'declare':
+        throw this.source.error('Ambient declarations are not supported', token.start);
+      case 'const':
+      case 'let':
+      case 'var':
+        this.parseVariableDeclaration(false);
+        return;
+      case 'export':
+        this.parseExport();
+        return;
+      default:
+        throw this.unexpected();
+    }
+  }
+
+  private parseExport(): void {
+    this.next();
+
+    if (this.isIdentifier('default')) {
+      this.next();
+      this.defaultExport = { value: this.parseExpression() };
+      this.endStatement();
+      return;
+    }
+
+    if (this.isPunctuator('{')) {
+      this.next();
+      while (!this.isPunctuator('}')) {
+        const local = this.expectIdentifier().value;
+        let exported = local;
+        if (this.isIdentifier('as')) {
+          this.next();
+          exported = this.expectIdentifier().value;
+        }
+        if (exported === 'default') {
+          this.defaultExport = { value: this.constants[local] };
+        } else {
+          this.constants[exported] = this.constants[local];
+          this.exportedNames.push(exported);
+        }
+        if (!this.isPunctuator('}')) {
+          this.expectPunctuator(',');
+        }
+      }
+      this.next();
+      this.endStatement();
+      return;
+    }
+
+    if (this.isIdentifier('interface')) {
+      this.skipInterface();
+      return;
+    }
+
+    if (this.isIdentifier('type')) {
+      this.skipTypeAlias();
+      return;
+    }
+
+    if (this.isIdentifier('const') || this.isIdentifier('let') || this.isIdentifier('var')) {
+      this.parseVariableDeclaration(true);
+      return;
+    }
+
+    throw this.unexpected('Expected a declaration after "export"');
+  }
+
+  private parseVariableDeclaration(exported: boolean): void {
+    this.next();
+
+    while (true) {
+      const name = this.expectIdentifier();
+
+      if (this.isPunctuator(':')) {
+        this.next();
+        this.skipType(['=']);
+      }
+
+      this.expectPunctuator('=');
+      this.constants[name.value] = this.parseExpression();
+      if (exported) {
+        this.exportedNames.push(name.value);
+      }
+
+      if (!this.isPunctuator(',')) {
+        break;
+      }
+      this.next();
+    }
+
+    this.endStatement();
+  }
+
+  private skipImport(): void {
+    const start = this.next();
+
+    // `import x = require('y')` and `import ... from 'y'` both end with the module specifier
+    while (this.peek().type !== 'string') {
+      if (this.peek().type === 'eof') {
+        throw this.source.error('Unterminated import statement', start.start);
+      }
+      this.next();
+    }
+    this.next();
+
+    if (this.isPunctuator(')')) {
+      this.next();
+    }
+    this.endStatement();
+  }
+
+  private skipInterface(): void {
+    this.next();
+    while (!this.isPunctuator('{')) {
+      if (this.peek().type === 'eof') {
+        throw this.unexpected('Expected "{"');
+      }
+      this.next();
+    }
+    this.skipBracketed();
+  }
+
+  private skipTypeAlias(): void {
+    this.next();
+    this.expectIdentifier();
+    if (this.isPunctuator('<')) {
+      this.skipBracketed();
+    }
+    this.expectPunctuator('=');
+    this.skipType([';']);
+    this.endStatement();
+  }
+
+  /** Skips a bracketed group starting at the current token, including nested groups */
+  private skipBracketed(): void {
+    const pairs: { [open: string]: string } = { '{': '}', '[': ']', '(': ')', '<': '>' };
+    const stack: string[] = [];
+
+    do {
+      const token = this.next();
+      if (token.type === 'eof') {
+        throw this.source.error(`Expected "${stack[stack.length - 1]}" but found end of file`, token.start);
+      }
+      if (token.type === 'punctuator') {
+        if (pairs.hasOwnProperty(token.value)) {
+          stack.push(pairs[token.value]);
+        } else if (token.value === '=>') {
+          // Arrow in a function type, not a closing angle bracket
+        } else if (token.value === stack[stack.length - 1]) {
+          stack.pop();
+        } else if ('}])'.indexOf(token.value) !== -1) {
+          throw this.source.error(`Unexpected "${token.value}"`, token.start);
+        }
+      }
+    } while (stack.length > 0);
+  }
+
+  /**
+   * Skips a type annotation. Stops before any of the terminators found outside of brackets,
+   * and before a statement keyword that starts on a new line.
+   */
+  private skipType(terminators: string[]): void {
+    const first = this.peek();
+    if (first.type === 'eof') {
+      throw this.unexpected('Expected a type');
+    }
+
+    while (true) {
+      const token = this.peek();
+
+      if (token.type === 'eof') {
+        return;
+      }
+      if (token.type === 'punctuator') {
+        if (terminators.indexOf(token.value) !== -1 || '}]),;'.indexOf(token.value) !== -1) {
+          return;
+        }
+        if ('{[(<'.indexOf(token.value) !== -1) {
+          this.skipBracketed();
+          continue;
+        }
+      }
+      if (token !== first && token.newLineBefore && token.type === 'identifier' &&
+        STATEMENT_KEYWORDS.indexOf(token.value) !== -1) {
+        return;
+      }
+      this.next();
+    }
+  }
+
+  private parseExpression(): any {
+    let left = this.parseUnary();
+
+    while (this.isPunctuator('+')) {
+      const operator = this.next();
+      const right = this.parseUnary();
+      if (!isPrimitive(left) || !isPrimitive(right)) {
+        throw this.source.error('Only strings and numbers can be combined with "+"', operator.start);
+      }
+      left = left + right;
+    }
+
+    return left;
+  }
+
+  private parseUnary(): any {
+    if (this.isPunctuator('-') || this.isPunctuator('+')) {
+      const operator = this.next();
+      const operand = this.parseUnary();
+      if (typeof operand !== 'number') {
+        throw this.source.error(`Unary "${operator.value}" can only be applied to numbers`, operator.start);
+      }
+      return operator.value === '-' ? -operand : operand;
+    }
+
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(value: any): any {
+    while (true) {
+      const token = this.peek();
+
+      if (this.isPunctuator('.') && !token.newLineBefore) {
+        this.next();
+        const property = this.expectIdentifier();
+        value = this.readMember(value, property.value, property);
+      } else if (this.isPunctuator('[') && !token.newLineBefore) {
+        this.next();
+        const key = this.parseExpression();
+        this.expectPunctuator(']');
+        value = this.readMember(value, key, token);
+      } else if (this.isPunctuator('!') && !token.newLineBefore) {
+        this.next();
+      } else if (this.isIdentifier('as') || this.isIdentifier('satisfies')) {
+        this.next();
+        if (this.isIdentifier('const')) {
+          this.next();
+        } else {
+          this.skipType([]);
+        }
+      } else if (this.isPunctuator('(')) {
+        throw this.source.error('Function calls are not supported', token.start);
+      } else {
+        return value;
+      }
+    }
+  }
+
+  private readMember(target: any, key: any, token: IToken): any {
+    if (target === null || target === undefined || typeof target !== 'object') {
+      throw this.source.error(`Cannot read property "${key}" of ${target === null ? 'null' : typeof target}`, token.start);
+    }
+    if (!Object.prototype.hasOwnProperty.call(target, key)) {
+      throw this.source.error(`Property "${key}" does not exist`, token.start);
+    }
+    return target[key];
+  }
+
+  private parsePrimary(): any {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'string':
+        this.next();
+        return token.text;
+      case 'number':
+        this.next();
+        return token.numberValue;
+      case 'template':
+        this.next();
+        return this.evaluateTemplate(token);
+      case 'punctuator':
+        if (token.value === '{') {
+          return this.parseObject();
+        }
+        if (token.value === '[') {
+          return this.parseArray();
+        }
+        if (token.value === '(') {
+          this.next();
+          const value = this.parseExpression();
+          this.expectPunctuator(')');
+          if (this.isPunctuator('=>')) {
+            throw this.source.error('Functions are not supported', token.start);
+          }
+          return value;
+        }
+        throw this.unexpected('Expected a value');
+      case 'identifier':
+        return this.parseIdentifierValue();
+      default:
+        throw this.unexpected('Expected a value');
+    }
+  }
+
+  private parseIdentifierValue(): any {
+    const token = this.next();
+
+    switch (token.value) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'null':
+        return null;
+      case 'undefined':
+        return undefined;
+      case 'function':
+        throw this.source.error('Functions are not supported', token.start);
+      case 'new':
+        throw this.source.error('"new" expressions are not supported', token.start);
+    }
+
+    if (this.isPunctuator('=>')) {
+      throw this.source.error('Functions are not supported', token.start);
+    }
+    if (this.isPunctuator('(')) {
+      throw this.source.error('Function calls are not supported', token.start);
+    }
+    if (!this.constants.hasOwnProperty(token.value)) {
+      throw this.source.error(`"${token.value}" is not defined; only constants declared earlier in the file can be referenced`, token.start);
+    }
+    return this.constants[token.value];
+  }
+
+  private evaluateTemplate(token: IToken): string {
+    let result = '';
+
+    for (const part of token.templateParts) {
+      result += part.cooked;
+      if (part.expressionStart === -1) {
+        continue;
+      }
+
+      const value = this.parseSubstitution(part);
+
+      if (value !== null && typeof value === 'object') {
+        throw this.source.error('Only strings and numbers can be used in template substitutions', part.expressionStart);
+      }
+      result += String(value);
+    }
+
+    return result;
+  }
+
+  private parseSubstitution(part: ITemplatePart): any {
+    const outerTokens = this.tokens;
+    const outerIndex = this.index;
+
+    this.tokens = new Lexer(this.source, part.expressionStart, part.expressionEnd).tokenize();
+    this.index = 0;
+    try {
+      const value = this.parseExpression();
+      this.expectEnd();
+      return value;
+    } finally {
+      this.tokens = outerTokens;
+      this.index = outerIndex;
+    }
+  }
+
+  private parseObject(): { [key: string]: any } {
+    const result: { [key: string]: any } = {};
+    this.expectPunctuator('{');
+
+    while (!this.isPunctuator('}')) {
+      if (this.isPunctuator('...')) {
+        const spread = this.next();
+        const value = this.parseExpression();
+        if (value === null || typeof value !== 'object' || value instanceof Array) {
+          throw this.source.error('Only objects can be spread into an object', spread.start);
+        }
+        for (const key of Object.keys(value)) {
+          result[key] = value[key];
+        }
+      } else {
+        const keyToken = this.peek();
+        const key = this.parsePropertyKey();
+
+        if (this.isPunctuator(':')) {
+          this.next();
+          result[key] = this.parseExpression();
+        } else if (this.isPunctuator('(')) {
+          throw this.source.error('Methods are not supported', keyToken.start);
+        } else if (keyToken.type === 'identifier' && (this.isPunctuator(',') || this.isPunctuator('}'))) {
+          // Shorthand property referring to an earlier constant
+          if (!this.constants.hasOwnProperty(key)) {
+            throw this.source.error(`"${key}" is not defined`, keyToken.start);
+          }
+          result[key] = this.constants[key];
+        } else {
+          throw this.unexpected('Expected ":"');
+        }
+      }
+
+      if (!this.isPunctuator('}')) {
+        this.expectPunctuator(',');
+      }
+    }
+
+    this.next();
+    return result;
+  }
+
+  private parsePropertyKey(): string {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'identifier':
+        this.next();
+        return token.value;
+      case 'string':
+        this.next();
+        return token.text;
+      case 'number':
+        this.next();
+        return String(token.numberValue);
+      case 'template':
+        this.next();
+        return this.evaluateTemplate(token);
+      default:
+        if (this.isPunctuator('[')) {
+          this.next();
+          const key = this.parseExpression();
+          this.expectPunctuator(']');
+          if (!isPrimitive(key)) {
+            throw this.source.error('Computed property names must be strings or numbers', token.start);
+          }
+          return String(key);
+        }
+        throw this.unexpected('Expected a property name');
+    }
+  }
+
+  private parseArray(): any[] {
+    const result: any[] = [];
+    this.expectPunctuator('[');
+
+    while (!this.isPunctuator(']')) {
+      if (this.isPunctuator(',')) {
+        throw this.unexpected('Expected a value');
+      }
+
+      if (this.isPunctuator('...')) {
+        const spread = this.next();
+        const value = this.parseExpression();
+        if (!(value instanceof Array)) {
+          throw this.source.error('Only arrays can be spread into an array', spread.start);
+        }
+        result.push.apply(result, value);
+      } else {
+        result.push(this.parseExpression());
+      }
+
+      if (!this.isPunctuator(']')) {
+        this.expectPunctuator(',');
+      }
+    }
+
+    this.next();
+    return result;
+  }
+}
+
+function isPrimitive(value: any): boolean {
+  return typeof value === 'string' || typeof value === 'number';
+}
@@ -0,0 +1,84 @@
+import { MenuData } from './MegaMenuService';
+
+export type MenuDataSourceType = 'library' | 'list' | 'inline' | 'static';
+
+/** Identifies a revision of the menu data, so a cached copy can be revalidated cheaply */
+export interface IMenuDataVersion {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface IMenuSourceResult {
+  data: MenuData;
+  /** Missing for sources that cannot tell whether their data changed */
+  version?: IMenuDataVersion;
+  /** Label of the earlier file version that was used because the current file could not be read */
+  fileVersion?: string;
+}
+
+/**
+ * A place menu data can be loaded from. Sources are tried in order until one succeeds.
+ */
+export interface IMenuDataSource {
+  type: MenuDataSourceType;
+  /**
+   * Loads the menu, rejecting with an error that explains why the source could not serve it.
+   * Given the version of a cached copy, resolves to null when the source can tell the menu has not changed.
+   */
+  load(cachedVersion?: IMenuDataVersion): Promise<IMenuSourceResult | null>;
+}
+
+export interface IMenuSourceFailure {
+  source: MenuDataSourceType;
+  reason: string;
+}
+
+export interface IMenuDataLoadInfo {
+  /** The source that served the menu */
+  source: MenuDataSourceType;
+  /** Whether the menu came from the browser cache rather than directly from the source */
+  fromCache: boolean;
+  /** Sources that were tried first and failed */
+  failures: IMenuSourceFailure[];
+  /** Set when the current menu file could not be read and this earlier version of it was used */
+  fileVersion?: string;
+}
+
+/** Whether two versions identify the same revision, preferring ETags over modification times */
+export function isSameVersion(a: IMenuDataVersion | undefined, b: IMenuDataVersion | undefined): boolean {
+  if (!a || !b) {
+    return false;
+  }
+  if (a.etag && b.etag) {
+    return a.etag === b.etag;
+  }
+  return !!a.lastModified && a.lastModified === b.lastModified;
+}
+
+export const DEFAULT_SOURCE_ORDER: MenuDataSourceType[] = ['library', 'static'];
+
+const SOURCE_TYPES: MenuDataSourceType[] = ['library', 'list', 'inline', 'static'];
+
+/**
+ * Reads the source order from a customizer property, given either as an array
+ * or as a comma-separated string such as "library,list,static".
+ */
+export function parseSourceOrder(value: string | string[] | undefined): MenuDataSourceType[] {
+  if (!value) {
+    return DEFAULT_SOURCE_ORDER;
+  }
+
+  const names = typeof value === 'string' ? value.split(',') : value;
+  const order: MenuDataSourceType[] = [];
+
+  names.forEach(name => {
+    const type = name.trim().toLowerCase() as MenuDataSourceType;
+    if (SOURCE_TYPES.indexOf(type) === -1) {
+      console.warn(`Ignoring unknown menu data source "${name}"`);
+    } else if (order.indexOf(type) === -1) {
+      order.push(type);
+    }
+  });
+
+  return order.length > 0 ? order : DEFAULT_SOURCE_ORDER;
+}
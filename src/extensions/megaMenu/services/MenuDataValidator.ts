@@ -0,0 +1,320 @@
+import { MenuData, MenuTheme, NavigationItem, MegaMenuData, MenuColumn, MenuItem, MenuCallToAction } from './MegaMenuService';
+import { parseScheduleDate } from './MenuSchedule';
+
+export interface IMenuValidationError {
+  /** JSON path of the offending value, e.g. `navigation[3].megaMenu.columns[1].items[4].href` */
+  path: string;
+  message: string;
+}
+
+export interface IMenuValidationResult {
+  /** The validated data, or null when it cannot be used */
+  data: MenuData | null;
+  errors: IMenuValidationError[];
+}
+
+/**
+ * Validates parsed menu data against the MenuData model.
+ *
+ * In strict mode every violation is collected and no data is returned if there is any.
+ * In lenient mode invalid nodes are dropped (an invalid link removes the link, an invalid
+ * column removes the column, and so on) and the remaining tree is returned.
+ */
+export class MenuDataValidator {
+  private errors: IMenuValidationError[];
+
+  constructor(private lenient: boolean = false) {
+  }
+
+  public static formatErrors(errors: IMenuValidationError[]): string {
+    return errors.map(error => `${error.path}: ${error.message}`).join('\n');
+  }
+
+  public validate(value: any): IMenuValidationResult {
+    this.errors = [];
+
+    let data: MenuData | null = null;
+    if (!this.isObject(value)) {
+      this.addError('$', 'expected object', value);
+    } else if (!(value.navigation instanceof Array)) {
+      this.addError('navigation', 'expected array', value.navigation);
+    } else {
+      data = {
+        ...value,
+        navigation: this.validateList<NavigationItem>(value.navigation, 'navigation', this.validateNavigationItem),
+        theme: this.validateTheme(value.theme, 'theme')
+      };
+    }
+
+    if (!this.lenient && this.errors.length > 0) {
+      data = null;
+    }
+
+    return { data, errors: this.errors };
+  }
+
+  private validateTheme(value: any, path: string): MenuTheme | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!this.isObject(value)) {
+      this.addError(path, 'expected object', value);
+      return undefined;
+    }
+
+    let valid = true;
+    Object.keys(value).forEach(key => {
+      if (key === 'colorScheme') {
+        if (['light', 'dark', 'auto'].indexOf(value.colorScheme) === -1) {
+          this.addError(`${path}.colorScheme`, 'expected "light", "dark" or "auto"', value.colorScheme);
+          valid = false;
+        }
+      } else {
+        valid = this.checkString(value, key, path) && valid;
+      }
+    });
+    return valid ? value : undefined;
+  }
+
+  private validateNavigationItem(value: any, path: string): NavigationItem | null {
+    if (!this.isObject(value)) {
+      this.addError(path, 'expected object', value);
+      return null;
+    }
+
+    const titleValid = this.checkLocalizedText(value, 'title', path);
+    const hrefValid = this.checkString(value, 'href', path);
+    const audiencesValid = this.checkAudiences(value, path);
+    const matchValid = this.checkMatch(value, path);
+    const scheduleValid = this.checkSchedule(value, path);
+    let valid = titleValid && hrefValid && audiencesValid && matchValid && scheduleValid;
+
+    let megaMenu: MegaMenuData | undefined;
+    if (value.megaMenu !== undefined && value.megaMenu !== null) {
+      megaMenu = this.validateMegaMenu(value.megaMenu, `${path}.megaMenu`);
+      valid = valid && !!megaMenu;
+    }
+
+    return valid ? { ...value, megaMenu } : null;
+  }
+
+  private validateMegaMenu(value: any, path: string): MegaMenuData | null {
+    if (!this.isObject(value)) {
+      this.addError(path, 'expected object', value);
+      return null;
+    }
+    if (!(value.columns instanceof Array)) {
+      this.addError(`${path}.columns`, 'expected array', value.columns);
+      return null;
+    }
+
+    return {
+      ...value,
+      columns: this.validateList<MenuColumn>(value.columns, `${path}.columns`, this.validateColumn)
+    };
+  }
+
+  private validateColumn(value: any, path: string): MenuColumn | null {
+    if (!this.isObject(value)) {
+      this.addError(path, 'expected object', value);
+      return null;
+    }
+
+    const titleValid = this.checkLocalizedText(value, 'title', path);
+    const audiencesValid = this.checkAudiences(value, path);
+    const featuredValid = this.checkFeatured(value, path);
+    const scheduleValid = this.checkSchedule(value, path);
+
+    // Featured columns may consist of the promo panel alone
+    const items = value.items === undefined && value.variant === 'featured' ? [] : value.items;
+    if (!(items instanceof Array)) {
+      this.addError(`${path}.items`, 'expected array', value.items);
+      return null;
+    }
+
+    const validItems = this.validateList<MenuItem>(items, `${path}.items`, this.validateItem);
+    return titleValid && audiencesValid && featuredValid && scheduleValid ? { ...value, items: validItems } : null;
+  }
+
+  private validateItem(value: any, path: string): MenuItem | null {
+    if (!this.isObject(value)) {
+      this.addError(path, 'expected object', value);
+      return null;
+    }
+
+    const titleValid = this.checkLocalizedText(value, 'title', path);
+    const hrefValid = this.checkString(value, 'href', path);
+    const audiencesValid = this.checkAudiences(value, path);
+    const iconValid = this.checkOptionalString(value, 'icon', path);
+    const descriptionValid = this.checkOptionalLocalizedText(value, 'description', path);
+    const badgeValid = this.checkOptionalString(value, 'badge', path);
+    const matchValid = this.checkMatch(value, path);
+    const scheduleValid = this.checkSchedule(value, path);
+    const valid = titleValid && hrefValid && audiencesValid && iconValid && descriptionValid && badgeValid && matchValid && scheduleValid;
+
+    if (value.children === undefined || value.children === null) {
+      return valid ? value : null;
+    }
+    if (!(value.children instanceof Array)) {
+      this.addError(`${path}.children`, 'expected array', value.children);
+      return null;
+    }
+
+    const children = this.validateList<MenuItem>(value.children, `${path}.children`, this.validateItem);
+    return valid ? { ...value, children } : null;
+  }
+
+  /** Validates each entry of a list, keeping only the entries that passed */
+  private validateList<T>(list: any[], path: string, validateEntry: (value: any, path: string) => T | null): T[] {
+    const result: T[] = [];
+
+    list.forEach((entry, index) => {
+      const validated = validateEntry.call(this, entry, `${path}[${index}]`);
+      if (validated) {
+        result.push(validated);
+      }
+    });
+
+    return result;
+  }
+
+  private checkString(owner: any, key: string, path: string): boolean {
+    if (typeof owner[key] !== 'string') {
+      this.addError(`${path}.${key}`, 'expected string', owner[key]);
+      return false;
+    }
+    return true;
+  }
+
+  private checkFeatured(column: any, path: string): boolean {
+    let valid = true;
+
+    if (column.variant !== undefined && column.variant !== 'links' && column.variant !== 'featured') {
+      this.addError(`${path}.variant`, 'expected "links" or "featured"', column.variant);
+      valid = false;
+    }
+
+    valid = this.checkOptionalString(column, 'image', path) && valid;
+    ['imageAlt', 'headline', 'description'].forEach(key => {
+      valid = this.checkOptionalLocalizedText(column, key, path) && valid;
+    });
+
+    if (column.cta !== undefined && column.cta !== null) {
+      if (!this.isObject(column.cta)) {
+        this.addError(`${path}.cta`, 'expected object', column.cta);
+        valid = false;
+      } else {
+        const cta: MenuCallToAction = column.cta;
+        const textValid = this.checkLocalizedText(cta, 'text', `${path}.cta`);
+        const hrefValid = this.checkString(cta, 'href', `${path}.cta`);
+        valid = valid && textValid && hrefValid;
+      }
+    }
+
+    return valid;
+  }
+
+  private checkOptionalString(owner: any, key: string, path: string): boolean {
+    if (owner[key] === undefined || owner[key] === null) {
+      return true;
+    }
+    return this.checkString(owner, key, path);
+  }
+
+  /** Texts are either a string or translations keyed by culture name */
+  private checkLocalizedText(owner: any, key: string, path: string): boolean {
+    const text = owner[key];
+    if (typeof text === 'string') {
+      return true;
+    }
+    if (!this.isObject(text) || Object.keys(text).length === 0) {
+      this.addError(`${path}.${key}`, 'expected string or translations', text);
+      return false;
+    }
+
+    let valid = true;
+    Object.keys(text).forEach(cultureName => {
+      valid = this.checkString(text, cultureName, `${path}.${key}`) && valid;
+    });
+    return valid;
+  }
+
+  private checkOptionalLocalizedText(owner: any, key: string, path: string): boolean {
+    if (owner[key] === undefined || owner[key] === null) {
+      return true;
+    }
+    return this.checkLocalizedText(owner, key, path);
+  }
+
+  private checkMatch(owner: any, path: string): boolean {
+    const match = owner.match;
+    if (match !== undefined && match !== null && match !== 'exact' && match !== 'prefix' && match !== 'none') {
+      this.addError(`${path}.match`, 'expected "exact", "prefix" or "none"', match);
+      return false;
+    }
+    return true;
+  }
+
+  /** `showFrom` and `showUntil` are optional dates and times with a time zone, in that order */
+  private checkSchedule(owner: any, path: string): boolean {
+    let valid = true;
+    const times: { [key: string]: number } = {};
+
+    ['showFrom', 'showUntil'].forEach(key => {
+      const value = owner[key];
+      if (value === undefined || value === null) {
+        return;
+      }
+      times[key] = typeof value === 'string' ? parseScheduleDate(value) : NaN;
+      if (isNaN(times[key])) {
+        this.addError(`${path}.${key}`, 'expected an ISO 8601 date and time with a time zone, e.g. "2025-06-01T08:00:00-05:00"', value);
+        valid = false;
+      }
+    });
+
+    if (valid && times.showFrom >= times.showUntil) {
+      this.addError(`${path}.showUntil`, 'expected a time after showFrom', owner.showUntil);
+      valid = false;
+    }
+    return valid;
+  }
+
+  /** Audiences are optional; when present they must be a list of group names or IDs */
+  private checkAudiences(owner: any, path: string): boolean {
+    const audiences = owner.audiences;
+    if (audiences === undefined || audiences === null) {
+      return true;
+    }
+    if (!(audiences instanceof Array)) {
+      this.addError(`${path}.audiences`, 'expected array', audiences);
+      return false;
+    }
+
+    let valid = true;
+    audiences.forEach((audience: any, index: number) => {
+      if (typeof audience !== 'string' && typeof audience !== 'number') {
+        this.addError(`${path}.audiences[${index}]`, 'expected string or number', audience);
+        valid = false;
+      }
+    });
+    return valid;
+  }
+
+  private isObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !(value instanceof Array);
+  }
+
+  private addError(path: string, expectation: string, actual: any): void {
+    this.errors.push({ path, message: `${expectation}, got ${describeValue(actual)}` });
+  }
+}
+
+function describeValue(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Array) {
+    return 'array';
+  }
+  return typeof value;
+}
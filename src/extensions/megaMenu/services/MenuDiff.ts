@@ -0,0 +1,150 @@
+import { MenuData, MenuItem, LocalizedText } from './MegaMenuService';
+import { MenuEntryKind } from './MenuEditing';
+import { resolveLocalizedText } from './LocalizedText';
+import { isSameMenuValue } from './MenuFileSerializer';
+
+export type MenuDiffChangeType = 'added' | 'removed' | 'moved' | 'renamed';
+
+export interface IMenuDiffChange {
+  type: MenuDiffChangeType;
+  kind: MenuEntryKind;
+  title: string;
+  /** Previous title of a renamed entry */
+  oldTitle?: string;
+  href: string;
+  /** Titles of the menu, column and links the entry is in */
+  path: string[];
+  /** Previous location of a moved entry */
+  oldPath?: string[];
+}
+
+interface IDiffNode {
+  kind: MenuEntryKind;
+  title: LocalizedText;
+  text: string;
+  href: string;
+  parent: IDiffNode | null;
+  /** Position among its siblings */
+  index: number;
+  path: string[];
+  /** The corresponding node of the other menu */
+  match: IDiffNode | null;
+}
+
+type MatchRule = (before: IDiffNode, after: IDiffNode) => boolean;
+
+/**
+ * Entries are paired from the most to the least certain rule. Links are recognized by their URL,
+ * entries without one (columns and submenu parents) by their title, or by their position when
+ * they were renamed.
+ */
+const MATCH_RULES: MatchRule[] = [
+  (before, after) => !!before.href && before.href === after.href && isSameTitle(before, after) && hasMatchingParents(before, after),
+  (before, after) => !!before.href && before.href === after.href && isSameTitle(before, after),
+  (before, after) => !!before.href && before.href === after.href,
+  (before, after) => !before.href && !after.href && isSameTitle(before, after) && hasMatchingParents(before, after),
+  (before, after) => !before.href && !after.href && isSameTitle(before, after),
+  (before, after) => !before.href && !after.href && before.index === after.index && hasMatchingParents(before, after)
+];
+
+/**
+ * Compares two versions of a menu. Entries that were added or removed are reported without their
+ * contents; entries that went to another menu, column or submenu are reported as moved, and
+ * reordering within the same list is not reported.
+ */
+export function diffMenuData(before: MenuData, after: MenuData, cultureName: string): IMenuDiffChange[] {
+  const beforeNodes = flattenMenu(before, cultureName);
+  const afterNodes = flattenMenu(after, cultureName);
+
+  for (const rule of MATCH_RULES) {
+    for (const afterNode of afterNodes) {
+      if (afterNode.match) {
+        continue;
+      }
+      for (const beforeNode of beforeNodes) {
+        if (!beforeNode.match && beforeNode.kind === afterNode.kind && rule(beforeNode, afterNode)) {
+          beforeNode.match = afterNode;
+          afterNode.match = beforeNode;
+          break;
+        }
+      }
+    }
+  }
+
+  const changes: IMenuDiffChange[] = [];
+  const describe = (type: MenuDiffChangeType, node: IDiffNode): IMenuDiffChange =>
+    ({ type, kind: node.kind, title: node.text, href: node.href, path: node.path });
+
+  afterNodes.forEach(node => {
+    if (!node.match) {
+      if (!node.parent || node.parent.match) {
+        changes.push(describe('added', node));
+      }
+      return;
+    }
+
+    if (!isSameTitle(node.match, node)) {
+      changes.push({ ...describe('renamed', node), oldTitle: node.match.text });
+    }
+    const formerParent = node.parent ? node.parent.match : null;
+    if (formerParent !== node.match.parent) {
+      changes.push({ ...describe('moved', node), oldPath: node.match.path });
+    }
+  });
+
+  beforeNodes.forEach(node => {
+    if (!node.match && (!node.parent || node.parent.match)) {
+      changes.push(describe('removed', node));
+    }
+  });
+
+  return changes;
+}
+
+function flattenMenu(data: MenuData, cultureName: string): IDiffNode[] {
+  const nodes: IDiffNode[] = [];
+
+  const add = (kind: MenuEntryKind, title: LocalizedText, href: string, parent: IDiffNode | null, index: number): IDiffNode => {
+    const node: IDiffNode = {
+      kind,
+      title,
+      text: resolveLocalizedText(title, cultureName),
+      href: href || '',
+      parent,
+      index,
+      path: parent ? parent.path.concat(parent.text) : [],
+      match: null
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  const addLinks = (items: MenuItem[], parent: IDiffNode) => {
+    items.forEach((item, index) => {
+      const node = add('link', item.title, item.href, parent, index);
+      if (item.children) {
+        addLinks(item.children, node);
+      }
+    });
+  };
+
+  data.navigation.forEach((item, index) => {
+    const node = add('navigation', item.title, item.href, null, index);
+    if (item.megaMenu) {
+      item.megaMenu.columns.forEach((column, columnIndex) => {
+        addLinks(column.items, add('column', column.title, '', node, columnIndex));
+      });
+    }
+  });
+
+  return nodes;
+}
+
+function isSameTitle(a: IDiffNode, b: IDiffNode): boolean {
+  return isSameMenuValue(a.title, b.title);
+}
+
+/** Whether both are top-level entries or their parents were paired */
+function hasMatchingParents(before: IDiffNode, after: IDiffNode): boolean {
+  return before.parent ? before.parent.match === after.parent : !after.parent;
+}
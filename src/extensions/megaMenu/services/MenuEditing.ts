@@ -0,0 +1,98 @@
+import { MenuData, NavigationItem, MenuColumn, MenuItem } from './MegaMenuService';
+
+/**
+ * Keys leading from the menu data to a list of entries, e.g. `['navigation', 0, 'megaMenu', 'columns']`
+ * for the columns of the first navigation item.
+ */
+export type MenuListPath = (string | number)[];
+
+export type MenuEntryKind = 'navigation' | 'column' | 'link';
+
+export type MenuEntry = NavigationItem | MenuColumn | MenuItem;
+
+/** What a list holds: navigation items, columns, or links (column links and submenu links alike) */
+export function getListKind(listPath: MenuListPath): MenuEntryKind {
+  const key = listPath[listPath.length - 1];
+  return key === 'navigation' ? 'navigation' : key === 'columns' ? 'column' : 'link';
+}
+
+export function getList(data: MenuData, listPath: MenuListPath): MenuEntry[] {
+  let value: any = data;
+  for (const key of listPath) {
+    value = value ? value[key] : undefined;
+  }
+  return value instanceof Array ? value : [];
+}
+
+export function createEntry(kind: MenuEntryKind, title: string): MenuEntry {
+  switch (kind) {
+    case 'navigation':
+      return { title, href: '' };
+    case 'column':
+      return { title, items: [] };
+    default:
+      return { title, href: '' };
+  }
+}
+
+export function updateEntry(data: MenuData, listPath: MenuListPath, index: number, changes: any): MenuData {
+  return updateList(data, listPath, list => list.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+}
+
+export function insertEntry(data: MenuData, listPath: MenuListPath, index: number, entry: MenuEntry): MenuData {
+  return updateList(data, listPath, list => list.slice(0, index).concat([entry], list.slice(index)));
+}
+
+export function removeEntry(data: MenuData, listPath: MenuListPath, index: number): MenuData {
+  return updateList(data, listPath, list => list.filter((entry, i) => i !== index));
+}
+
+/**
+ * Moves an entry to a position in the same or another list of the same kind, e.g. a link to another
+ * column or submenu. Returns the data unchanged when the move is not possible, such as moving
+ * a link into its own submenu.
+ */
+export function moveEntry(data: MenuData, fromList: MenuListPath, fromIndex: number, toList: MenuListPath, toIndex: number): MenuData {
+  const entry = getList(data, fromList)[fromIndex];
+  const ownPath = fromList.concat(fromIndex);
+  if (!entry || getListKind(fromList) !== getListKind(toList) || startsWith(toList, ownPath)) {
+    return data;
+  }
+
+  // Removing the entry shifts later entries of its list, including lists nested in them
+  const target = toList.slice();
+  let targetIndex = toIndex;
+  if (startsWith(target, fromList) && target.length > fromList.length && (target[fromList.length] as number) > fromIndex) {
+    target[fromList.length] = (target[fromList.length] as number) - 1;
+  } else if (isSamePath(target, fromList) && targetIndex > fromIndex) {
+    targetIndex--;
+  }
+
+  return insertEntry(removeEntry(data, fromList, fromIndex), target, targetIndex, entry);
+}
+
+export function isSamePath(a: MenuListPath, b: MenuListPath): boolean {
+  return a.length === b.length && startsWith(a, b);
+}
+
+/** Copies the objects along the path and replaces the list at its end; missing menus and submenus are created */
+function updateList(data: MenuData, listPath: MenuListPath, update: (list: MenuEntry[]) => MenuEntry[]): MenuData {
+  const updateIn = (value: any, depth: number): any => {
+    if (depth === listPath.length) {
+      return update(value instanceof Array ? value : []);
+    }
+
+    const key = listPath[depth];
+    const next = updateIn(value ? value[key] : undefined, depth + 1);
+    if (typeof key === 'number') {
+      return (value as any[]).map((entry, i) => i === key ? next : entry);
+    }
+    return { ...value, [key]: next };
+  };
+
+  return updateIn(data, 0);
+}
+
+function startsWith(path: MenuListPath, prefix: MenuListPath): boolean {
+  return path.length >= prefix.length && prefix.every((key, i) => path[i] === key);
+}
@@ -0,0 +1,10 @@
+/**
+ * Base class of the errors thrown by the mega menu. With an ES5 target, extending Error loses the
+ * prototype chain, so `instanceof` checks against subclasses would fail without restoring it here.
+ */
+export class MenuError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
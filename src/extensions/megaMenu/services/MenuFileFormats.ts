@@ -0,0 +1,168 @@
+import * as jsyaml from 'js-yaml';
+import { MenuDataParser, createParseError } from './MenuDataParser';
+
+export type MenuFileFormat = 'typescript' | 'json' | 'yaml';
+
+const FORMATS_BY_EXTENSION: { [extension: string]: MenuFileFormat } = {
+  ts: 'typescript',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml'
+};
+
+/**
+ * Picks the menu file format from the extension of the configured file name.
+ */
+export function getMenuFileFormat(fileName: string): MenuFileFormat {
+  const match = /\.([^./\\]+)$/.exec(fileName);
+  const extension = match ? match[1].toLowerCase() : '';
+
+  if (!FORMATS_BY_EXTENSION.hasOwnProperty(extension)) {
+    throw new Error(`Unsupported menu file "${fileName}": expected a .ts, .json, .yaml or .yml file`);
+  }
+  return FORMATS_BY_EXTENSION[extension];
+}
+
+/**
+ * Parses menu file content into an unvalidated value.
+ * Syntax errors are thrown as MenuDataParseError with the line and column of the problem.
+ */
+export function parseMenuFile(content: string, format: MenuFileFormat): any {
+  switch (format) {
+    case 'json':
+      return parseJson(content);
+    case 'yaml':
+      return parseYaml(content);
+    default:
+      return new MenuDataParser(content).parse();
+  }
+}
+
+/**
+ * Parses strict JSON, so comments, single quotes or trailing commas that only the TypeScript
+ * format allows are rejected. Browsers word syntax errors differently and not all of them give a
+ * position, so the error is located by scanning the content.
+ */
+function parseJson(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) {
+      throw error;
+    }
+    const message = error.message
+      .replace(/^JSON\.parse:\s*/i, '')
+      .replace(/,\s*"[\s\S]*" is not valid JSON$/i, '')
+      .replace(/\s*(in JSON\s*)?at (position|line) \d+.*$/i, '');
+    throw createParseError(content, `Invalid JSON: ${message}`, findJsonErrorOffset(content));
+  }
+}
+
+const JSON_LITERAL: RegExp = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/g;
+
+/** Returns the offset of the first character that makes the content invalid JSON */
+function findJsonErrorOffset(text: string): number {
+  let offset = 0;
+
+  const skipWhitespace = () => {
+    while (/[ \t\n\r]/.test(text.charAt(offset))) {
+      offset++;
+    }
+  };
+
+  const readString = (): boolean => {
+    if (text.charAt(offset) !== '"') {
+      return false;
+    }
+    offset++;
+    while (offset < text.length) {
+      const char = text.charAt(offset);
+      if (char === '"') {
+        offset++;
+        return true;
+      }
+      if (char === '\\') {
+        const escape = /^(["\\/bfnrt]|u[0-9a-fA-F]{4})/.exec(text.substr(offset + 1, 5));
+        if (!escape) {
+          return false;
+        }
+        offset += escape[0].length;
+      } else if (text.charCodeAt(offset) < 0x20) {
+        return false;
+      }
+      offset++;
+    }
+    return false;
+  };
+
+  const readList = (close: string, readElement: () => boolean): boolean => {
+    offset++;
+    skipWhitespace();
+    if (text.charAt(offset) === close) {
+      offset++;
+      return true;
+    }
+    while (readElement()) {
+      skipWhitespace();
+      const char = text.charAt(offset);
+      if (char === close) {
+        offset++;
+        return true;
+      }
+      if (char !== ',') {
+        return false;
+      }
+      offset++;
+      skipWhitespace();
+    }
+    return false;
+  };
+
+  const readValue = (): boolean => {
+    skipWhitespace();
+    switch (text.charAt(offset)) {
+      case '{':
+        return readList('}', () => {
+          if (!readString()) {
+            return false;
+          }
+          skipWhitespace();
+          if (text.charAt(offset) !== ':') {
+            return false;
+          }
+          offset++;
+          return readValue();
+        });
+      case '[':
+        return readList(']', readValue);
+      case '"':
+        return readString();
+      default:
+        JSON_LITERAL.lastIndex = offset;
+        const match = JSON_LITERAL.exec(text);
+        if (!match || match.index !== offset) {
+          return false;
+        }
+        offset += match[0].length;
+        return true;
+    }
+  };
+
+  if (readValue()) {
+    skipWhitespace();
+  }
+  return offset;
+}
+
+function parseYaml(content: string): any {
+  try {
+    // The JSON schema keeps dates and other YAML-specific scalars as plain strings
+    return jsyaml.safeLoad(content, { schema: jsyaml.JSON_SCHEMA });
+  } catch (error) {
+    const mark = error.mark;
+    if (!mark || typeof mark.position !== 'number') {
+      throw error;
+    }
+    throw createParseError(content, error.reason || 'Invalid YAML', mark.position);
+  }
+}
@@ -0,0 +1,151 @@
+import * as jsyaml from 'js-yaml';
+import { MenuData } from './MegaMenuService';
+import { MenuFileFormat, parseMenuFile } from './MenuFileFormats';
+
+/**
+ * Properties of the menu data model in the order they are written; other properties, such as the
+ * cultures of translated texts, follow in alphabetical order.
+ */
+const KEY_ORDER: string[] = [
+  'navigation', 'theme',
+  'title', 'text', 'href', 'match', 'variant', 'icon', 'image', 'imageAlt', 'headline', 'description', 'badge',
+  'audiences', 'showFrom', 'showUntil', 'cta', 'megaMenu', 'columns', 'items', 'children',
+  'colorScheme', 'primaryColor', 'primaryDarkColor', 'primaryDarkerColor', 'primaryLightColor', 'primaryLighterColor',
+  'accentColor', 'textOnPrimaryColor', 'surfaceColor', 'textColor', 'mutedTextColor', 'borderColor', 'linkColor',
+  'fontFamily', 'headerHeight', 'maxWidth'
+];
+
+const INDENT: string = '  ';
+
+const IDENTIFIER: RegExp = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const STRING_ESCAPES: { [char: string]: string } = {
+  '\\': '\\\\',
+  '\'': '\\\'',
+  '\b': '\\b',
+  '\f': '\\f',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\v': '\\v'
+};
+
+/**
+ * Writes menu data as the content of a menu file. The output is canonical: properties are written
+ * in a fixed order with two-space indentation, so the same menu always gives the same file, and
+ * parsing it with parseMenuFile gives back the same data. Undefined properties are left out.
+ *
+ * A menuData.ts file is written as a single `export const menuData = ...` declaration; imports,
+ * type declarations and comments of the original file are not kept.
+ */
+export function serializeMenuFile(data: MenuData, format: MenuFileFormat): string {
+  const value = toCanonicalValue(data);
+
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(value, null, INDENT.length)}\n`;
+    case 'yaml':
+      // The default schema quotes strings such as "true", "1.0" or "2024-01-31", which YAML 1.1
+      // readers would otherwise take for booleans, numbers or dates
+      return jsyaml.safeDump(value, { indent: INDENT.length, lineWidth: -1, noRefs: true });
+    default:
+      return `export const menuData = ${writeTypeScriptValue(value, '')};\n`;
+  }
+}
+
+/** Serializes the data and parses the result again, the way a saved file is read back */
+export function roundTripMenuFile(data: MenuData, format: MenuFileFormat): any {
+  return parseMenuFile(serializeMenuFile(data, format), format);
+}
+
+/** Whether two menu values hold the same data, regardless of property order and undefined properties */
+export function isSameMenuValue(a: any, b: any): boolean {
+  return JSON.stringify(toCanonicalValue(a)) === JSON.stringify(toCanonicalValue(b));
+}
+
+/** Copies a value with its properties in canonical order, leaving out undefined properties as JSON does */
+function toCanonicalValue(value: any): any {
+  if (value instanceof Array) {
+    return value.map(item => item === undefined ? null : toCanonicalValue(item));
+  }
+  if (typeof value === 'number' && !isFinite(value)) {
+    return null;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: { [key: string]: any } = {};
+  Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort(compareKeys)
+    .forEach(key => result[key] = toCanonicalValue(value[key]));
+  return result;
+}
+
+function compareKeys(a: string, b: string): number {
+  const rankA = KEY_ORDER.indexOf(a);
+  const rankB = KEY_ORDER.indexOf(b);
+  if (rankA !== -1 || rankB !== -1) {
+    // Known properties come first
+    return (rankA === -1 ? KEY_ORDER.length : rankA) - (rankB === -1 ? KEY_ORDER.length : rankB);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Writes a canonical value as an object literal, with unquoted keys where possible and single-quoted strings */
+function writeTypeScriptValue(value: any, indent: string): string {
+  if (typeof value === 'string') {
+    return quoteString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  const innerIndent = indent + INDENT;
+  if (value instanceof Array) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    const items = value.map((item: any) => `${innerIndent}${writeTypeScriptValue(item, innerIndent)}`);
+    return `[\n${items.join(',\n')}\n${indent}]`;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 0) {
+    return '{}';
+  }
+  const properties = keys.map(key =>
+    `${innerIndent}${IDENTIFIER.test(key) ? key : quoteString(key)}: ${writeTypeScriptValue(value[key], innerIndent)}`);
+  return `{\n${properties.join(',\n')}\n${indent}}`;
+}
+
+/**
+ * Quotes a string for a TypeScript file. Control characters, line separators and unpaired
+ * surrogates, which cannot be written to a UTF-8 file, are escaped.
+ */
+function quoteString(text: string): string {
+  let result = '\'';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    const code = text.charCodeAt(i);
+
+    if (STRING_ESCAPES.hasOwnProperty(char)) {
+      result += STRING_ESCAPES[char];
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length && isLowSurrogate(text.charCodeAt(i + 1))) {
+      result += text.substr(i, 2);
+      i++;
+    } else if (code < 0x20 || code === 0x7f || code === 0x2028 || code === 0x2029 || (code >= 0xd800 && code <= 0xdfff)) {
+      result += `\\u${`000${code.toString(16)}`.slice(-4)}`;
+    } else {
+      result += char;
+    }
+  }
+
+  return `${result}'`;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
@@ -0,0 +1,49 @@
+import { MenuData, NavigationItem, MenuColumn, MenuItem } from './MegaMenuService';
+import { MenuEntry } from './MenuEditing';
+
+/**
+ * Removes the navigation items, columns and links for which `isVisible` is false, together with
+ * everything below them. Columns left without links are hidden too, and navigation items left
+ * without columns keep only their own link, or are hidden if they have none.
+ */
+export function filterMenuEntries(data: MenuData, isVisible: (entry: MenuEntry) => boolean): MenuData {
+  const navigation: NavigationItem[] = [];
+
+  data.navigation.forEach(item => {
+    if (!isVisible(item)) {
+      return;
+    }
+    if (!item.megaMenu) {
+      navigation.push(item);
+      return;
+    }
+
+    const columns: MenuColumn[] = [];
+    item.megaMenu.columns.forEach(column => {
+      if (!isVisible(column)) {
+        return;
+      }
+      const items = filterMenuItems(column.items, isVisible);
+      // Hide columns whose links are all hidden, but keep columns that were empty to begin with
+      if (items.length > 0 || column.items.length === 0) {
+        columns.push({ ...column, items });
+      }
+    });
+
+    if (columns.length > 0 || item.megaMenu.columns.length === 0) {
+      navigation.push({ ...item, megaMenu: { ...item.megaMenu, columns } });
+    } else if (item.href) {
+      navigation.push({ ...item, megaMenu: undefined });
+    }
+  });
+
+  return { ...data, navigation };
+}
+
+function filterMenuItems(items: MenuItem[], isVisible: (entry: MenuEntry) => boolean): MenuItem[] {
+  return items
+    .filter(menuItem => isVisible(menuItem))
+    .map(menuItem => menuItem.children
+      ? { ...menuItem, children: filterMenuItems(menuItem.children, isVisible) }
+      : menuItem);
+}
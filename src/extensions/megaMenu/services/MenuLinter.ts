@@ -0,0 +1,259 @@
+import { MenuData, MenuItem, LocalizedText } from './MegaMenuService';
+
+export type MenuLintSeverity = 'error' | 'warning';
+
+export type MenuLintRule =
+  'duplicate-title' |
+  'duplicate-href' |
+  'empty-title' |
+  'malformed-url' |
+  'insecure-url' |
+  'deactivated' |
+  'long-column' |
+  'wrapped-url' |
+  'unknown-site';
+
+export interface IMenuLintIssue {
+  rule: MenuLintRule;
+  severity: MenuLintSeverity;
+  /** JSON path of the entry, in the format of validation errors */
+  path: string;
+  message: string;
+}
+
+export interface IMenuLinterOptions {
+  /** Columns with more links are reported (default: 15) */
+  maxColumnItems?: number;
+  /**
+   * Known sites, as absolute or server-relative URLs such as "/sites/formscentral". When given,
+   * links to other /sites/ and /teams/ sites are reported.
+   */
+  knownSites?: string[];
+}
+
+interface ILink {
+  path: string;
+  title: LocalizedText;
+  href: string;
+  /** Headings of submenus may have no link */
+  requiresHref: boolean;
+  badge?: string;
+}
+
+/** Services that wrap a link to scan or track it, and URL shorteners; both hide where a link goes */
+const WRAPPER_HOSTS: string[] = [
+  'safelinks.protection.outlook.com',
+  'urldefense.com',
+  'urldefense.proofpoint.com',
+  'l.facebook.com',
+  'lnkd.in',
+  'bit.ly',
+  'tinyurl.com',
+  'goo.gl',
+  't.co',
+  'ow.ly',
+  'buff.ly',
+  'is.gd',
+  'rebrand.ly',
+  'aka.ms'
+];
+/** Redirect paths of search engines and mail trackers, e.g. https://www.google.com/url?q=... */
+const WRAPPER_PATHS: RegExp = /^\/(url|redirect|click|track(ing)?)(\/|\?|$)/i;
+
+/**
+ * Finds problems in menu data that validation lets through: duplicates, empty titles, suspicious
+ * URLs, deactivated entries and over-long columns. Duplicates are reported within a top-level menu,
+ * since the same link is often listed under several menus on purpose.
+ */
+export class MenuLinter {
+  private issues: IMenuLintIssue[];
+  private maxColumnItems: number;
+  private knownSites: string[] | null;
+
+  constructor(options: IMenuLinterOptions = {}) {
+    this.maxColumnItems = options.maxColumnItems || 15;
+    this.knownSites = options.knownSites ? options.knownSites.map(site => getSitePath(site)).filter(site => !!site) : null;
+  }
+
+  public static formatIssues(issues: IMenuLintIssue[]): string {
+    return issues.map(issue => `${issue.severity.toUpperCase()} ${issue.path}: ${issue.message} [${issue.rule}]`).join('\n');
+  }
+
+  public lint(menuData: MenuData): IMenuLintIssue[] {
+    this.issues = [];
+    const topLevelLinks: ILink[] = [];
+
+    menuData.navigation.forEach((item, index) => {
+      const path = `navigation[${index}]`;
+      topLevelLinks.push({ path, title: item.title, href: item.href, requiresHref: !item.megaMenu });
+      if (!item.megaMenu) {
+        return;
+      }
+
+      const links: ILink[] = [];
+      item.megaMenu.columns.forEach((column, columnIndex) => {
+        const columnPath = `${path}.megaMenu.columns[${columnIndex}]`;
+        if (column.items.length > this.maxColumnItems) {
+          this.addIssue('long-column', 'warning', columnPath,
+            `${column.items.length} links, more than ${this.maxColumnItems}; consider splitting the column or using submenus`);
+        }
+        if (column.cta) {
+          this.checkUrl(column.cta.href, `${columnPath}.cta.href`);
+        }
+        this.collectLinks(column.items, `${columnPath}.items`, links);
+      });
+
+      links.forEach(link => this.checkLink(link));
+      this.checkDuplicates(links);
+    });
+
+    topLevelLinks.forEach(link => this.checkLink(link));
+    this.checkDuplicates(topLevelLinks);
+
+    return this.issues;
+  }
+
+  private collectLinks(items: MenuItem[], path: string, links: ILink[]): void {
+    items.forEach((menuItem, index) => {
+      const itemPath = `${path}[${index}]`;
+      const hasChildren = !!menuItem.children && menuItem.children.length > 0;
+      links.push({ path: itemPath, title: menuItem.title, href: menuItem.href, requiresHref: !hasChildren, badge: menuItem.badge });
+      if (hasChildren) {
+        this.collectLinks(menuItem.children, `${itemPath}.children`, links);
+      }
+    });
+  }
+
+  private checkLink(link: ILink): void {
+    const titles = getTexts(link.title);
+    if (titles.length === 0 || titles.some(title => !title.trim())) {
+      this.addIssue('empty-title', 'error', `${link.path}.title`, 'empty title');
+    }
+    if (titles.some(title => /\(\s*deactivated\s*\)/i.test(title)) || /^deactivated$/i.test(link.badge || '')) {
+      this.addIssue('deactivated', 'warning', link.path, `"${titles[0]}" is marked as deactivated; remove it from the menu`);
+    }
+
+    if (link.href) {
+      this.checkUrl(link.href, `${link.path}.href`);
+    } else if (link.requiresHref) {
+      this.addIssue('malformed-url', 'error', `${link.path}.href`, 'empty URL on a link without a submenu');
+    }
+  }
+
+  private checkUrl(href: string, path: string): void {
+    const url = href.trim();
+    if (url !== href || /\s/.test(url)) {
+      this.addIssue('malformed-url', 'error', path, `"${href}" contains whitespace`);
+      return;
+    }
+    if (/%(?![0-9a-f]{2})/i.test(url)) {
+      this.addIssue('malformed-url', 'error', path, `"${href}" contains an invalid percent-encoding`);
+      return;
+    }
+    if (url === '#' || url.charAt(0) === '#' || /^(mailto|tel):/i.test(url)) {
+      return;
+    }
+    if (/^www\./i.test(url)) {
+      this.addIssue('malformed-url', 'error', path, `"${href}" has no scheme and is treated as a relative URL; add https://`);
+      return;
+    }
+
+    const absolute = /^([a-z][a-z0-9+.\-]*):(\/\/)?([^\/?#]*)([^?#]*)(\?[^#]*)?/i.exec(url);
+    if (!absolute) {
+      this.checkSite(url, path);
+      return;
+    }
+
+    const scheme = absolute[1].toLowerCase();
+    const host = absolute[3].substring(absolute[3].lastIndexOf('@') + 1).replace(/:\d*$/, '').toLowerCase();
+    if (scheme !== 'http' && scheme !== 'https') {
+      this.addIssue('malformed-url', 'error', path, `"${href}" uses the unsupported scheme "${scheme}:"`);
+      return;
+    }
+    if (!absolute[2] || !host || !/^[a-z0-9.\-]+$/.test(host) || host.indexOf('.') === -1) {
+      this.addIssue('malformed-url', 'error', path, `"${href}" has no valid host`);
+      return;
+    }
+    if (scheme === 'http') {
+      this.addIssue('insecure-url', 'warning', path, `"${href}" does not use https`);
+    }
+
+    const wrapper = WRAPPER_HOSTS.filter(wrapperHost => host === wrapperHost || endsWith(host, `.${wrapperHost}`))[0];
+    if (wrapper) {
+      this.addIssue('wrapped-url', 'warning', path, `"${href}" goes through ${wrapper}; link to the target directly`);
+    } else if (WRAPPER_PATHS.test(absolute[4]) && /[?&](q|u|url|target)=https?/i.test(absolute[5] || '')) {
+      this.addIssue('wrapped-url', 'warning', path, `"${href}" is a redirect link; link to the target directly`);
+    }
+
+    this.checkSite(absolute[4], path);
+  }
+
+  /** Reports links to /sites/ and /teams/ sites missing from the known sites */
+  private checkSite(url: string, path: string): void {
+    if (!this.knownSites) {
+      return;
+    }
+    const site = getSitePath(url);
+    if (site && this.knownSites.indexOf(site) === -1) {
+      this.addIssue('unknown-site', 'warning', path, `"${site}" is not in the list of known sites`);
+    }
+  }
+
+  private checkDuplicates(links: ILink[]): void {
+    const titles: { [title: string]: ILink } = {};
+    const hrefs: { [href: string]: ILink } = {};
+
+    links.forEach(link => {
+      getTexts(link.title).forEach(title => {
+        const key = title.trim().replace(/\s+/g, ' ').toLowerCase();
+        if (!key) {
+          return;
+        }
+        const first = titles[key];
+        if (!first) {
+          titles[key] = link;
+        } else if (first !== link) {
+          this.addIssue('duplicate-title', 'warning', `${link.path}.title`, `"${title}" is also the title of ${first.path}`);
+        }
+      });
+
+      const href = normalizeHref(link.href);
+      if (href) {
+        if (hrefs[href]) {
+          this.addIssue('duplicate-href', 'warning', `${link.path}.href`, `"${link.href}" is also linked from ${hrefs[href].path}`);
+        } else {
+          hrefs[href] = link;
+        }
+      }
+    });
+  }
+
+  private addIssue(rule: MenuLintRule, severity: MenuLintSeverity, path: string, message: string): void {
+    this.issues.push({ rule, severity, path, message });
+  }
+}
+
+/** The plain title, or every translation */
+function getTexts(text: LocalizedText): string[] {
+  if (typeof text === 'string') {
+    return [text];
+  }
+  return text ? Object.keys(text).map(cultureName => text[cultureName]) : [];
+}
+
+/** Compares links regardless of case, trailing slashes and fragments; headings and anchors are skipped */
+function normalizeHref(href: string): string {
+  const url = (href || '').trim().split('#')[0];
+  return url ? url.replace(/\/+(\?|$)/, '$1').toLowerCase() : '';
+}
+
+/** "/sites/name" or "/teams/name" of a URL or path, lower-cased, or an empty string */
+function getSitePath(url: string): string {
+  const path = url.trim().replace(/^[a-z][a-z0-9+.\-]*:\/\/[^\/?#]*/i, '');
+  const match = /^\/(sites|teams)\/([^\/?#]+)/i.exec(path);
+  return match ? `/${match[1]}/${match[2]}`.toLowerCase() : '';
+}
+
+function endsWith(text: string, suffix: string): boolean {
+  return text.length >= suffix.length && text.substring(text.length - suffix.length) === suffix;
+}
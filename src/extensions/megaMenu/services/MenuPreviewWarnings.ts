@@ -0,0 +1,75 @@
+import { MenuData } from './MegaMenuService';
+import { MenuListPath, getList, updateEntry } from './MenuEditing';
+
+/** A problem found in a previewed menu file */
+export interface IMenuPreviewProblem {
+  /** JSON path of the problem, e.g. `navigation[3].megaMenu.columns[1].items[4].href` */
+  path: string;
+  message: string;
+  /** Whether the entry at the path was left out of the menu because of the problem */
+  dropped: boolean;
+}
+
+export interface IMenuPreviewWarnings {
+  /** The menu with the `warnings` of its entries set */
+  data: MenuData;
+  /** Problems no shown entry can hold, such as those of a dropped navigation item or of the theme */
+  unplaced: string[];
+}
+
+/** Lists whose elements are menu entries */
+const ENTRY_LISTS: string[] = ['navigation', 'columns', 'items', 'children'];
+
+/**
+ * Attaches problems to the entries they were found in, so the menu can show them next to the
+ * entries. The problems of a dropped entry go to the entry that contained it.
+ */
+export function attachPreviewWarnings(data: MenuData, problems: IMenuPreviewProblem[]): IMenuPreviewWarnings {
+  const unplaced: string[] = [];
+  let result = data;
+
+  problems.forEach(problem => {
+    const keys = parsePath(problem.path);
+
+    // Where the path leaves each entry along it, e.g. after `navigation[3]` and after `columns[1]`
+    const entryEnds: number[] = [];
+    keys.forEach((key, i) => {
+      if (typeof key === 'number' && ENTRY_LISTS.indexOf(keys[i - 1] as string) !== -1) {
+        entryEnds.push(i + 1);
+      }
+    });
+
+    const end = entryEnds[entryEnds.length - (problem.dropped ? 2 : 1)];
+    const listPath: MenuListPath = end ? keys.slice(0, end - 1) : [];
+    const index = end ? keys[end - 1] as number : -1;
+    const entry: any = end ? getList(result, listPath)[index] : undefined;
+    if (!entry) {
+      unplaced.push(`${problem.path}: ${problem.message}`);
+      return;
+    }
+
+    const relativePath = formatPath(keys.slice(end));
+    const warning = relativePath ? `${relativePath}: ${problem.message}` : problem.message;
+    result = updateEntry(result, listPath, index, { warnings: (entry.warnings || []).concat(warning) });
+  });
+
+  return { data: result, unplaced };
+}
+
+/** Splits a path such as `navigation[3].href` into `['navigation', 3, 'href']` */
+function parsePath(path: string): MenuListPath {
+  const keys: MenuListPath = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(path)) !== null) {
+    keys.push(match[2] !== undefined ? parseInt(match[2], 10) : match[1]);
+  }
+  return keys;
+}
+
+function formatPath(keys: MenuListPath): string {
+  return keys
+    .map((key, i) => typeof key === 'number' ? `[${key}]` : i > 0 ? `.${key}` : key)
+    .join('');
+}
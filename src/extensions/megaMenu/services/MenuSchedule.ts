@@ -0,0 +1,81 @@
+import { MenuData, MenuItem } from './MegaMenuService';
+import { filterMenuEntries } from './MenuFilter';
+
+/** Anything that can be shown for a limited time: navigation items, columns and links */
+export interface IScheduledEntry {
+  showFrom?: string;
+  showUntil?: string;
+}
+
+/** An ISO 8601 date and time with a time zone, e.g. 2025-06-01T08:00:00-05:00 or 2025-06-01T13:00Z */
+const ISO_DATE_TIME: RegExp = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?(?:(Z)|([+-])(\d{2}):?(\d{2}))$/i;
+
+/**
+ * Reads an ISO 8601 date and time with a time zone as milliseconds since 1970, or NaN when the
+ * value is not one. Parsed here rather than with Date.parse, which older browsers handle inconsistently.
+ */
+export function parseScheduleDate(value: string): number {
+  const match = ISO_DATE_TIME.exec(value);
+  if (!match) {
+    return NaN;
+  }
+
+  const parts = match.slice(1, 6).map(part => parseInt(part, 10));
+  const seconds = match[6] ? parseInt(match[6], 10) : 0;
+  const milliseconds = match[7] ? parseInt(`${match[7]}00`.substr(0, 3), 10) : 0;
+  const time = Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], seconds, milliseconds);
+
+  // Date.UTC rolls over out-of-range fields, such as February 30, instead of rejecting them
+  const date = new Date(time);
+  if (date.getUTCMonth() !== parts[1] - 1 || date.getUTCDate() !== parts[2] ||
+    date.getUTCHours() !== parts[3] || date.getUTCMinutes() !== parts[4] || date.getUTCSeconds() !== seconds) {
+    return NaN;
+  }
+
+  const offset = match[8] ? 0 : (match[9] === '-' ? -1 : 1) * (parseInt(match[10], 10) * 60 + parseInt(match[11], 10));
+  return time - offset * 60 * 1000;
+}
+
+/** Whether an entry is shown at the given time; it is hidden before `showFrom` and from `showUntil` on */
+export function isScheduledVisible(entry: IScheduledEntry, now: number): boolean {
+  const from = entry.showFrom ? parseScheduleDate(entry.showFrom) : NaN;
+  const until = entry.showUntil ? parseScheduleDate(entry.showUntil) : NaN;
+  return !(now < from) && !(now >= until);
+}
+
+/** Removes the entries that are not shown at the given time */
+export function filterScheduledMenuData(data: MenuData, now: number): MenuData {
+  return filterMenuEntries(data, entry => isScheduledVisible(entry, now));
+}
+
+/** The next time after `now` at which an entry appears or disappears, or null if none does */
+export function getNextVisibilityChange(data: MenuData, now: number): number | null {
+  let next: number | null = null;
+
+  const check = (entry: IScheduledEntry) => {
+    [entry.showFrom, entry.showUntil].forEach(value => {
+      const time = value ? parseScheduleDate(value) : NaN;
+      if (time > now && (next === null || time < next)) {
+        next = time;
+      }
+    });
+  };
+  const checkItems = (items: MenuItem[]) => items.forEach(menuItem => {
+    check(menuItem);
+    if (menuItem.children) {
+      checkItems(menuItem.children);
+    }
+  });
+
+  data.navigation.forEach(item => {
+    check(item);
+    if (item.megaMenu) {
+      item.megaMenu.columns.forEach(column => {
+        check(column);
+        checkItems(column.items);
+      });
+    }
+  });
+
+  return next;
+}
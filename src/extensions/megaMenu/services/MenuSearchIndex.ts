@@ -0,0 +1,196 @@
+import { MenuData, MenuItem } from './MegaMenuService';
+import { resolveLocalizedText } from './LocalizedText';
+
+export interface IMenuSearchResult {
+  title: string;
+  href: string;
+  /** Titles of the navigation item, column and parent links above the link */
+  path: string[];
+  score: number;
+}
+
+interface IMenuSearchEntry {
+  title: string;
+  href: string;
+  path: string[];
+  /** The title without case and accents, and its words */
+  normalizedTitle: string;
+  words: string[];
+}
+
+// Used where String.prototype.normalize is missing (Internet Explorer)
+const ACCENT_FOLDS: { [folded: string]: RegExp } = {
+  a: /[àáâãäåāăą]/g,
+  c: /[çćĉċč]/g,
+  e: /[èéêëēĕėęě]/g,
+  i: /[ìíîïĩīĭįı]/g,
+  n: /[ñńņňŉ]/g,
+  o: /[òóôõöøōŏő]/g,
+  u: /[ùúûüũūŭůűų]/g,
+  y: /[ýÿŷ]/g,
+  s: /[śŝşš]/g,
+  z: /[źżž]/g
+};
+
+/** Lower-cases text and strips accents, so "Café" matches "cafe" */
+export function normalizeSearchText(text: string): string {
+  let normalized = text.toLowerCase();
+  if (typeof normalized.normalize === 'function') {
+    normalized = normalized.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  } else {
+    Object.keys(ACCENT_FOLDS).forEach(folded => {
+      normalized = normalized.replace(ACCENT_FOLDS[folded], folded);
+    });
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Searches the titles of every link in the menu. Each query word must match a word of the title,
+ * by prefix, as a substring, with one typo, or as a subsequence of the title, in decreasing order of score.
+ */
+export class MenuSearchIndex {
+  private entries: IMenuSearchEntry[] = [];
+
+  constructor(menuData: MenuData, cultureName: string, isUrlAllowed: (url: string) => boolean = () => true) {
+    const text = (value: any) => resolveLocalizedText(value, cultureName);
+
+    const addItems = (items: MenuItem[], path: string[]): void => {
+      items.forEach(menuItem => {
+        if (!isUrlAllowed(menuItem.href)) {
+          return;
+        }
+        const title = text(menuItem.title);
+        if (menuItem.href) {
+          this.addEntry(title, menuItem.href, path);
+        }
+        if (menuItem.children) {
+          addItems(menuItem.children, path.concat(title));
+        }
+      });
+    };
+
+    menuData.navigation.forEach(item => {
+      if (!isUrlAllowed(item.href)) {
+        return;
+      }
+      const title = text(item.title);
+      if (item.href) {
+        this.addEntry(title, item.href, []);
+      }
+      if (item.megaMenu) {
+        item.megaMenu.columns.forEach(column => {
+          const columnTitle = text(column.title);
+          addItems(column.items, columnTitle ? [title, columnTitle] : [title]);
+        });
+      }
+    });
+  }
+
+  public search(query: string, limit: number = 10): IMenuSearchResult[] {
+    const normalizedQuery = normalizeSearchText(query);
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const queryWords = normalizedQuery.split(' ');
+    const results: IMenuSearchResult[] = [];
+    const seen: { [key: string]: boolean } = {};
+
+    this.entries.forEach(entry => {
+      let score = 0;
+      for (const queryWord of queryWords) {
+        const wordScore = this.scoreWord(queryWord, entry);
+        if (wordScore === 0) {
+          return;
+        }
+        score += wordScore;
+      }
+      if (entry.normalizedTitle.indexOf(normalizedQuery) === 0) {
+        score += 2;
+      } else if (entry.normalizedTitle.indexOf(normalizedQuery) !== -1) {
+        score += 1;
+      }
+
+      // The same link is often listed under several menus; show it once
+      const key = `${entry.title}\n${entry.href}`;
+      if (!seen[key]) {
+        seen[key] = true;
+        results.push({ title: entry.title, href: entry.href, path: entry.path, score });
+      }
+    });
+
+    results.sort((a, b) =>
+      b.score - a.score || a.path.length - b.path.length || a.title.localeCompare(b.title));
+    return results.slice(0, limit);
+  }
+
+  private addEntry(title: string, href: string, path: string[]): void {
+    const normalizedTitle = normalizeSearchText(title);
+    this.entries.push({
+      title,
+      href,
+      path,
+      normalizedTitle,
+      words: normalizedTitle.split(/[^a-z0-9]+/).filter(word => !!word)
+    });
+  }
+
+  private scoreWord(queryWord: string, entry: IMenuSearchEntry): number {
+    let best = 0;
+
+    entry.words.forEach(word => {
+      if (word.indexOf(queryWord) === 0) {
+        best = Math.max(best, 4);
+      } else if (word.indexOf(queryWord) !== -1) {
+        best = Math.max(best, 3);
+      } else if (queryWord.length >= 4 && isWithinOneEdit(queryWord, word.substring(0, queryWord.length + 1))) {
+        best = Math.max(best, 2);
+      }
+    });
+
+    if (best === 0 && queryWord.length >= 3 && isSubsequence(queryWord, entry.normalizedTitle)) {
+      best = 1;
+    }
+    return best;
+  }
+}
+
+/** Whether `query` matches the start of `word` with at most one inserted, deleted, replaced or swapped character */
+function isWithinOneEdit(query: string, word: string): boolean {
+  const candidates = [word.substring(0, query.length), word.substring(0, query.length - 1), word];
+  return candidates.some(candidate => editDistance(query, candidate) <= 1);
+}
+
+/** Optimal string alignment distance: Levenshtein distance that also counts swapped neighbors as one edit */
+function editDistance(a: string, b: string): number {
+  const distances: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    distances[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    distances[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+}
+
+function isSubsequence(query: string, text: string): boolean {
+  let position = 0;
+  for (let i = 0; i < query.length; i++) {
+    position = text.indexOf(query[i], position) + 1;
+    if (position === 0) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,157 @@
+import { IMenuTelemetryEvent, IMenuTelemetryEventData, IMenuTelemetrySink, MenuTelemetrySendError } from './MenuTelemetrySinks';
+
+export interface IMenuTelemetryOptions {
+  /** Share of browser sessions that are recorded, from 0 to 1 (default: 1) */
+  sampleRate?: number;
+  /** Record nothing */
+  disabled?: boolean;
+  /** Events are sent once this many are waiting (default: 20) */
+  batchSize?: number;
+  /** Milliseconds between sends of waiting events (default: 15 seconds) */
+  flushInterval?: number;
+}
+
+const SAMPLED_KEY = 'spfx-mega-menu-telemetry-sampled';
+/** Events that could not be sent before the previous page was left */
+const PENDING_KEY = 'spfx-mega-menu-telemetry-pending';
+/** Events beyond this are dropped while the sink is failing */
+const MAX_QUEUE_LENGTH = 200;
+
+/**
+ * Records how the menu is used and sends the events to a sink in batches. Whether a browser
+ * session is recorded is decided once per session, so sampled sessions are complete.
+ */
+export class MenuTelemetry {
+  private queue: IMenuTelemetryEvent[] = [];
+  private enabled: boolean;
+  private batchSize: number;
+  private timer: number | null = null;
+  private isFlushing: boolean = false;
+
+  constructor(private sink: IMenuTelemetrySink, options: IMenuTelemetryOptions = {}) {
+    this.enabled = !options.disabled && !isDoNotTrackSet() && isSessionSampled(options.sampleRate);
+    this.batchSize = options.batchSize || 20;
+    if (!this.enabled) {
+      return;
+    }
+
+    this.queue = readPendingEvents();
+    this.timer = window.setInterval(() => this.flush(), options.flushInterval || 15000);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public track(event: IMenuTelemetryEventData): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.queue.push({ ...event, timestamp: new Date().toISOString(), pageUrl: window.location.href });
+    if (this.queue.length > MAX_QUEUE_LENGTH) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUE_LENGTH);
+    }
+    if (this.queue.length >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  /** Sends the waiting events; events that were not sent are kept for the next attempt */
+  public async flush(): Promise<void> {
+    if (this.isFlushing || this.queue.length === 0) {
+      return;
+    }
+
+    const events = this.queue;
+    this.queue = [];
+    this.isFlushing = true;
+    try {
+      await this.sink.send(events);
+    } catch (error) {
+      console.warn('Could not send mega menu telemetry:', error);
+      const unsent = error instanceof MenuTelemetrySendError ? error.unsentEvents : events;
+      this.queue = unsent.concat(this.queue).slice(-MAX_QUEUE_LENGTH);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /** Stops recording and hands the waiting events over as if the page were left */
+  public dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    this.flushOnExit();
+    this.enabled = false;
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.flushOnExit();
+    }
+  }
+
+  private handlePageHide = (): void => {
+    this.flushOnExit();
+  }
+
+  private flushOnExit(): void {
+    if (this.queue.length === 0) {
+      return;
+    }
+    if (this.sink.sendOnExit && this.sink.sendOnExit(this.queue)) {
+      this.queue = [];
+      return;
+    }
+    // Keep the events for the next page of the session; they are sent from the queue or from storage, not both
+    try {
+      sessionStorage.setItem(PENDING_KEY, JSON.stringify(this.queue));
+      this.queue = [];
+    } catch (error) {
+      console.warn('Could not keep mega menu telemetry for the next page:', error);
+    }
+  }
+}
+
+function isSessionSampled(sampleRate: number = 1): boolean {
+  if (sampleRate >= 1) {
+    return true;
+  }
+  if (!(sampleRate > 0)) {
+    return false;
+  }
+
+  try {
+    const stored = sessionStorage.getItem(SAMPLED_KEY);
+    if (stored !== null) {
+      return stored === 'true';
+    }
+    const sampled = Math.random() < sampleRate;
+    sessionStorage.setItem(SAMPLED_KEY, String(sampled));
+    return sampled;
+  } catch (error) {
+    return Math.random() < sampleRate;
+  }
+}
+
+function isDoNotTrackSet(): boolean {
+  const doNotTrack = (navigator as any).doNotTrack || (window as any).doNotTrack || (navigator as any).msDoNotTrack;
+  return doNotTrack === '1' || doNotTrack === 'yes';
+}
+
+function readPendingEvents(): IMenuTelemetryEvent[] {
+  try {
+    const value = sessionStorage.getItem(PENDING_KEY);
+    sessionStorage.removeItem(PENDING_KEY);
+    const events = value ? JSON.parse(value) : [];
+    return events instanceof Array ? events : [];
+  } catch (error) {
+    return [];
+  }
+}
@@ -0,0 +1,194 @@
+import { HttpClient, SPHttpClient, SPHttpClientBatch, HttpClientResponse } from '@microsoft/sp-http';
+import { MenuError } from './MenuError';
+
+export type MenuTelemetryEventType = 'menuOpen' | 'linkClick' | 'search' | 'searchNoResults';
+
+/** What the menu reports about an event */
+export interface IMenuTelemetryEventData {
+  type: MenuTelemetryEventType;
+  /** Title of the top-level navigation item */
+  menu?: string;
+  /** Title of the column, or "Search" for search results */
+  column?: string;
+  title?: string;
+  href?: string;
+  /** 1-based position of the link in its column or submenu, or in the search results */
+  position?: number;
+  query?: string;
+  resultCount?: number;
+}
+
+export interface IMenuTelemetryEvent extends IMenuTelemetryEventData {
+  /** ISO 8601 time the event happened */
+  timestamp: string;
+  pageUrl: string;
+}
+
+/** Thrown by a sink that sent some of the events but not all, so only the others are sent again */
+export class MenuTelemetrySendError extends MenuError {
+  public unsentEvents: IMenuTelemetryEvent[];
+
+  constructor(message: string, unsentEvents: IMenuTelemetryEvent[]) {
+    super(message);
+    this.name = 'MenuTelemetrySendError';
+    this.unsentEvents = unsentEvents;
+  }
+}
+
+/** Where recorded menu events are sent */
+export interface IMenuTelemetrySink {
+  /** Rejects with a MenuTelemetrySendError when only some of the events were sent */
+  send(events: IMenuTelemetryEvent[]): Promise<void>;
+  /**
+   * Hands events to the browser while the page is being left, when requests may be cancelled.
+   * Returns false when the sink cannot do that; the events are then kept for the next page.
+   */
+  sendOnExit?(events: IMenuTelemetryEvent[]): boolean;
+}
+
+export type MenuTelemetrySinkType = 'list' | 'http' | 'console';
+
+/** Logs events to the browser console, for debugging */
+export class ConsoleTelemetrySink implements IMenuTelemetrySink {
+  public send(events: IMenuTelemetryEvent[]): Promise<void> {
+    console.log('Mega menu telemetry:', events);
+    return Promise.resolve();
+  }
+
+  public sendOnExit(events: IMenuTelemetryEvent[]): boolean {
+    console.log('Mega menu telemetry:', events);
+    return true;
+  }
+}
+
+/**
+ * Posts batches of events as a JSON array to a custom endpoint. Beacons are sent as text/plain,
+ * which cross-origin endpoints accept without a preflight request.
+ */
+export class HttpTelemetrySink implements IMenuTelemetrySink {
+  constructor(private httpClient: HttpClient, private endpoint: string) {
+  }
+
+  public async send(events: IMenuTelemetryEvent[]): Promise<void> {
+    if (this.sendOnExit(events)) {
+      return;
+    }
+
+    const response: HttpClientResponse = await this.httpClient.post(this.endpoint, HttpClient.configurations.v1, {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(events)
+    });
+    if (!response.ok) {
+      throw new Error(`Telemetry endpoint error: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  public sendOnExit(events: IMenuTelemetryEvent[]): boolean {
+    return typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(this.endpoint, JSON.stringify(events));
+  }
+}
+
+/** SharePoint accepts at most this many requests in one $batch request */
+const MAX_BATCH_REQUESTS = 100;
+
+/**
+ * Adds an item per event to a SharePoint list with the columns Title (the event type), PageUrl,
+ * Menu, MenuColumn, LinkTitle, LinkUrl, Position, Query and ResultCount, in a single $batch request.
+ * SharePoint requests need a request digest, which beacons cannot send, so events recorded while
+ * leaving the page wait for the next one.
+ */
+export class ListTelemetrySink implements IMenuTelemetrySink {
+  constructor(private spHttpClient: SPHttpClient, private webUrl: string, private listTitle: string) {
+  }
+
+  public async send(events: IMenuTelemetryEvent[]): Promise<void> {
+    const endpoint = `${this.webUrl}/_api/web/lists/getbytitle('${encodeURIComponent(this.listTitle.replace(/'/g, "''"))}')/items`;
+    let unsent: IMenuTelemetryEvent[] = [];
+    let message = '';
+
+    for (let start = 0; start < events.length; start += MAX_BATCH_REQUESTS) {
+      const batchEvents = events.slice(start, start + MAX_BATCH_REQUESTS);
+      const batch: SPHttpClientBatch = this.spHttpClient.beginBatch({ webUrl: this.webUrl });
+      // Each item is still added on its own within the batch, so some can fail while others are written
+      const written = batchEvents.map(event =>
+        batch.post(endpoint, SPHttpClientBatch.configurations.v1, { body: JSON.stringify(this.toListItem(event)) })
+          .then(response => response.ok, () => false));
+
+      try {
+        await batch.execute();
+      } catch (error) {
+        throw new MenuTelemetrySendError(`SharePoint batch error: ${error.message}`, unsent.concat(events.slice(start)));
+      }
+
+      const results = await Promise.all(written);
+      const failed = batchEvents.filter((event, i) => !results[i]);
+      if (failed.length > 0) {
+        unsent = unsent.concat(failed);
+        message = `SharePoint list error: ${unsent.length} of ${events.length} events were not added`;
+      }
+    }
+
+    if (unsent.length > 0) {
+      throw new MenuTelemetrySendError(message, unsent);
+    }
+  }
+
+  private toListItem(event: IMenuTelemetryEvent): { [field: string]: string | number } {
+    const fields: { [field: string]: string | number | undefined } = {
+      Title: event.type,
+      PageUrl: event.pageUrl,
+      Menu: event.menu,
+      MenuColumn: event.column,
+      LinkTitle: event.title,
+      LinkUrl: event.href,
+      Position: event.position,
+      Query: event.query,
+      ResultCount: event.resultCount
+    };
+
+    const item: { [field: string]: string | number } = {};
+    Object.keys(fields).forEach(field => {
+      const value = fields[field];
+      if (value !== undefined) {
+        // Single line of text columns hold at most 255 characters
+        item[field] = typeof value === 'string' ? value.substring(0, 255) : value;
+      }
+    });
+    return item;
+  }
+}
+
+export interface IMenuTelemetrySinkOptions {
+  spHttpClient: SPHttpClient;
+  httpClient: HttpClient;
+  webUrl: string;
+  /** Title of the list for the list sink */
+  listTitle?: string;
+  /** URL the http sink posts to */
+  endpoint?: string;
+}
+
+/** Creates the configured sink, or returns null when telemetry is not configured */
+export function createMenuTelemetrySink(type: string | undefined, options: IMenuTelemetrySinkOptions): IMenuTelemetrySink | null {
+  switch ((type || '').toLowerCase()) {
+    case '':
+      return null;
+    case 'console':
+      return new ConsoleTelemetrySink();
+    case 'http':
+      if (!options.endpoint) {
+        console.warn('No telemetry endpoint configured, menu telemetry is off');
+        return null;
+      }
+      return new HttpTelemetrySink(options.httpClient, options.endpoint);
+    case 'list':
+      if (!options.listTitle) {
+        console.warn('No telemetry list configured, menu telemetry is off');
+        return null;
+      }
+      return new ListTelemetrySink(options.spHttpClient, options.webUrl, options.listTitle);
+    default:
+      console.warn(`Unknown menu telemetry sink "${type}", menu telemetry is off`);
+      return null;
+  }
+}
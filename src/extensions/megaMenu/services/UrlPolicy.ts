@@ -0,0 +1,167 @@
+import { MenuData, NavigationItem, MenuColumn, MenuItem } from './MegaMenuService';
+import { IMenuValidationError } from './MenuDataValidator';
+
+export interface IUrlPolicyOptions {
+  /** Schemes absolute URLs may use; defaults to http, https, mailto and tel */
+  allowedSchemes?: string[];
+  /**
+   * Hosts absolute http(s) URLs may point to. `*.contoso.com` matches any subdomain of contoso.com.
+   * The SharePoint host is always allowed. Every host is allowed when the list is empty.
+   */
+  allowedHosts?: string[];
+}
+
+export interface IUrlPolicyResult {
+  data: MenuData;
+  /** Entries that were dropped, with the path of the rejected URL */
+  rejected: IMenuValidationError[];
+}
+
+export const DEFAULT_ALLOWED_SCHEMES: string[] = ['http', 'https', 'mailto', 'tel'];
+
+/**
+ * Decides which URLs the menu may link to. Relative URLs always stay on the site and are allowed;
+ * absolute URLs must use an allowed scheme and, for http(s), an allowed host.
+ */
+export class UrlPolicy {
+  private allowedSchemes: string[];
+  private allowedHosts: string[];
+
+  constructor(siteUrl: string, options: IUrlPolicyOptions = {}) {
+    const schemes = options.allowedSchemes && options.allowedSchemes.length > 0
+      ? options.allowedSchemes
+      : DEFAULT_ALLOWED_SCHEMES;
+    this.allowedSchemes = schemes.map(scheme => scheme.trim().toLowerCase().replace(/:$/, ''));
+    this.allowedHosts = (options.allowedHosts || [])
+      .map(host => host.trim().toLowerCase())
+      .filter(host => !!host);
+
+    if (this.allowedHosts.length > 0) {
+      this.allowedHosts.push(getHost(siteUrl));
+    }
+  }
+
+  public isAllowed(url: string): boolean {
+    return this.getViolation(url) === null;
+  }
+
+  /** Explains why a URL is rejected, or returns null when it is allowed */
+  public getViolation(url: string): string | null {
+    if (typeof url !== 'string') {
+      return 'expected string';
+    }
+
+    // Browsers ignore surrounding whitespace and control characters, drop tabs and
+    // line breaks anywhere, and treat backslashes like slashes in http(s) URLs
+    const normalized = url
+      .replace(/^[\u0000- ]+|[\u0000- ]+$/g, '')
+      .replace(/[\t\n\r]/g, '')
+      .replace(/\\/g, '/');
+
+    const schemeMatch = /^([a-z][a-z0-9+.\-]*):/i.exec(normalized);
+    if (schemeMatch) {
+      const scheme = schemeMatch[1].toLowerCase();
+      if (this.allowedSchemes.indexOf(scheme) === -1) {
+        return `scheme "${scheme}:" is not allowed`;
+      }
+      return scheme === 'http' || scheme === 'https'
+        ? this.checkHost(normalized.substring(schemeMatch[0].length))
+        : null;
+    }
+
+    // Protocol-relative URLs leave the site like absolute ones
+    return normalized.substring(0, 2) === '//' ? this.checkHost(normalized) : null;
+  }
+
+  /** Drops navigation items and links whose URL is rejected, and rejected images and buttons of columns */
+  public filterMenuData(data: MenuData): IUrlPolicyResult {
+    const rejected: IMenuValidationError[] = [];
+    const navigation: NavigationItem[] = [];
+
+    data.navigation.forEach((item, index) => {
+      const path = `navigation[${index}]`;
+      if (!this.checkUrl(item.href, `${path}.href`, rejected)) {
+        return;
+      }
+      if (!item.megaMenu) {
+        navigation.push(item);
+        return;
+      }
+
+      const columns = item.megaMenu.columns.map((column, columnIndex) =>
+        this.filterColumn(column, `${path}.megaMenu.columns[${columnIndex}]`, rejected));
+      navigation.push({ ...item, megaMenu: { ...item.megaMenu, columns } });
+    });
+
+    return { data: { ...data, navigation }, rejected };
+  }
+
+  private filterColumn(column: MenuColumn, path: string, rejected: IMenuValidationError[]): MenuColumn {
+    const result: MenuColumn = { ...column, items: this.filterItems(column.items, `${path}.items`, rejected) };
+
+    if (column.image && !this.checkUrl(column.image, `${path}.image`, rejected)) {
+      delete result.image;
+    }
+    if (column.cta && !this.checkUrl(column.cta.href, `${path}.cta.href`, rejected)) {
+      delete result.cta;
+    }
+    return result;
+  }
+
+  private filterItems(items: MenuItem[], path: string, rejected: IMenuValidationError[]): MenuItem[] {
+    const result: MenuItem[] = [];
+
+    items.forEach((menuItem, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (!this.checkUrl(menuItem.href, `${itemPath}.href`, rejected)) {
+        return;
+      }
+      result.push(menuItem.children
+        ? { ...menuItem, children: this.filterItems(menuItem.children, `${itemPath}.children`, rejected) }
+        : menuItem);
+    });
+
+    return result;
+  }
+
+  private checkUrl(url: string, path: string, rejected: IMenuValidationError[]): boolean {
+    const violation = this.getViolation(url);
+    if (violation) {
+      rejected.push({ path, message: violation });
+    }
+    return !violation;
+  }
+
+  private checkHost(url: string): string | null {
+    if (this.allowedHosts.length === 0) {
+      return null;
+    }
+
+    const host = getHost(url);
+    const allowed = this.allowedHosts.some(pattern => pattern.substring(0, 2) === '*.'
+      ? host.length > pattern.length - 1 && host.substring(host.length - pattern.length + 1) === pattern.substring(1)
+      : host === pattern);
+    return allowed ? null : `host "${host}" is not allowed`;
+  }
+}
+
+/**
+ * Reads a list customizer property, given either as an array or as a comma-separated string.
+ */
+export function parseUrlPolicyList(value: string | string[] | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  const entries = typeof value === 'string' ? value.split(',') : value;
+  return entries.map(entry => entry.trim()).filter(entry => !!entry);
+}
+
+/** Extracts the lower-cased host name of an absolute or protocol-relative URL */
+function getHost(url: string): string {
+  const authority = url
+    .replace(/^[a-z][a-z0-9+.\-]*:/i, '')
+    .replace(/^\/*/, '')
+    .split(/[\/?#]/)[0];
+  const host = authority.substring(authority.lastIndexOf('@') + 1);
+  return host.replace(/:\d*$/, '').replace(/\.$/, '').toLowerCase();
+}
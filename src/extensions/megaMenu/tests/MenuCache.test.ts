@@ -0,0 +1,110 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuCache, ICachedMenuData, IMenuCacheScope, MENU_CACHE_SCHEMA_VERSION } from '../services/MenuCache';
+import { IMenuCacheStorage } from '../services/MenuCacheStorage';
+
+class MemoryCacheStorage implements IMenuCacheStorage {
+  public items: { [key: string]: string } = {};
+
+  public getItem(key: string): Promise<string | null> {
+    return Promise.resolve(this.items.hasOwnProperty(key) ? this.items[key] : null);
+  }
+
+  public setItem(key: string, value: string): Promise<void> {
+    this.items[key] = value;
+    return Promise.resolve();
+  }
+
+  public removeItem(key: string): Promise<void> {
+    delete this.items[key];
+    return Promise.resolve();
+  }
+
+  public keys(): Promise<string[]> {
+    return Promise.resolve(Object.keys(this.items));
+  }
+}
+
+function scope(fileName: string, webUrl: string = 'https://contoso.sharepoint.com/sites/intranet'): IMenuCacheScope {
+  return { webUrl, documentLibrary: 'SiteAssets', fileName };
+}
+
+function entry(title: string): ICachedMenuData {
+  return { data: { navigation: [{ title, href: '/' }] }, source: 'library', timestamp: 1, version: { etag: `"${title}"` } };
+}
+
+describe('MenuCache', () => {
+  let storage: MemoryCacheStorage;
+
+  beforeEach(() => {
+    storage = new MemoryCacheStorage();
+  });
+
+  it('returns what was stored, and nothing once removed', async () => {
+    const cache = new MenuCache(storage, scope('menu.json'));
+    assert.isNull(await cache.get());
+
+    await cache.set(entry('Home'));
+    assert.deepEqual(await cache.get(), entry('Home'));
+
+    await cache.remove();
+    assert.isNull(await cache.get());
+  });
+
+  it('keeps the menus of different sites, libraries and files apart', async () => {
+    const menu = new MenuCache(storage, scope('menu.json'));
+    const draft = new MenuCache(storage, scope('draft.json'));
+    const otherSite = new MenuCache(storage, scope('menu.json', 'https://contoso.sharepoint.com/sites/hr'));
+
+    await menu.set(entry('Menu'));
+    await draft.set(entry('Draft'));
+    assert.isNull(await otherSite.get());
+    assert.deepEqual(await menu.get(), entry('Menu'));
+    assert.deepEqual(await draft.get(), entry('Draft'));
+  });
+
+  it('ignores the case and trailing slashes of the site URL', async () => {
+    await new MenuCache(storage, scope('menu.json', 'https://Contoso.sharepoint.com/sites/Intranet/')).set(entry('Home'));
+    assert.deepEqual(await new MenuCache(storage, scope('menu.json')).get(), entry('Home'));
+  });
+
+  it('evicts the least recently used menus beyond the maximum', async () => {
+    const first = new MenuCache(storage, scope('first.json'), 2);
+    const second = new MenuCache(storage, scope('second.json'), 2);
+    const third = new MenuCache(storage, scope('third.json'), 2);
+
+    await first.set(entry('First'));
+    await second.set(entry('Second'));
+    // Reading the first menu makes the second one the least recently used
+    await first.get();
+    await third.set(entry('Third'));
+
+    assert.isNotNull(await first.get());
+    assert.isNull(await second.get());
+    assert.isNotNull(await third.get());
+  });
+
+  it('removes entries of older schema versions and the unscoped legacy entry', async () => {
+    storage.items['spfx-mega-menu-data'] = JSON.stringify(entry('Legacy'));
+    storage.items[`spfx-mega-menu:v${MENU_CACHE_SCHEMA_VERSION - 1}:old`] = JSON.stringify(entry('Old'));
+    storage.items['other-app-key'] = 'kept';
+
+    await new MenuCache(storage, scope('menu.json')).set(entry('Home'));
+
+    assert.notProperty(storage.items, 'spfx-mega-menu-data');
+    assert.notProperty(storage.items, `spfx-mega-menu:v${MENU_CACHE_SCHEMA_VERSION - 1}:old`);
+    assert.equal(storage.items['other-app-key'], 'kept');
+  });
+
+  it('drops corrupted entries', async () => {
+    const cache = new MenuCache(storage, scope('menu.json'));
+    await cache.set(entry('Home'));
+    Object.keys(storage.items).filter(key => key !== 'spfx-mega-menu:lru').forEach(key => {
+      storage.items[key] = '{not json';
+    });
+
+    assert.isNull(await cache.get());
+    assert.deepEqual(await storage.keys(), ['spfx-mega-menu:lru']);
+  });
+});
@@ -0,0 +1,90 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuDataParser, MenuDataParseError } from '../services/MenuDataParser';
+
+function parse(source: string): any {
+  return new MenuDataParser(source).parse();
+}
+
+function parseError(source: string): MenuDataParseError {
+  try {
+    parse(source);
+  } catch (error) {
+    assert.instanceOf(error, MenuDataParseError);
+    return error;
+  }
+  throw new Error('Expected a MenuDataParseError');
+}
+
+describe('MenuDataParser', () => {
+  it('reads the exported menuData constant', () => {
+    assert.deepEqual(parse('export const menuData = { navigation: [] };'), { navigation: [] });
+  });
+
+  it('skips imports, interfaces, type aliases and type annotations', () => {
+    const source = [
+      "import { MenuData } from './MegaMenuService';",
+      'interface IExtra { title: string; }',
+      "type Kind = 'a' | 'b';",
+      'export const menuData: MenuData = { navigation: [] } as MenuData;'
+    ].join('\n');
+    assert.deepEqual(parse(source), { navigation: [] });
+  });
+
+  it('reads the literals of a menu file', () => {
+    const source = `export const menuData = {
+      // Line comment
+      'quoted': "double",
+      unquoted: 'single',
+      1: 1.5e3,
+      ['computed']: -0x10,
+      /* block comment */
+      flags: [true, false, null, undefined,],
+      escaped: 'tab\\there \\u{1F600}',
+    };`;
+    assert.deepEqual(parse(source), {
+      quoted: 'double',
+      unquoted: 'single',
+      1: 1500,
+      computed: -16,
+      flags: [true, false, null, undefined],
+      escaped: 'tab\there 😀'
+    });
+  });
+
+  it('resolves earlier constants, member access, spread, concatenation and templates', () => {
+    const source = `
+      const base = '/sites/hr';
+      const links = { home: { title: 'Home', href: base + '/home' } };
+      const shared = [links.home];
+      export const menuData = {
+        navigation: [...shared, { ...links.home, title: \`HR \${links.home.title}\` }]
+      } as const;`;
+    assert.deepEqual(parse(source), {
+      navigation: [
+        { title: 'Home', href: '/sites/hr/home' },
+        { title: 'HR Home', href: '/sites/hr/home' }
+      ]
+    });
+  });
+
+  it('falls back to the default export', () => {
+    assert.deepEqual(parse('const menu = { navigation: [] };\nexport default menu satisfies object;'), { navigation: [] });
+  });
+
+  it('reports function calls with their line and column', () => {
+    const error = parseError('export const menuData = {\n  navigation: getNavigation()\n};');
+    assert.equal(error.line, 2);
+    assert.equal(error.column, 15);
+    assert.include(error.frame, 'getNavigation()');
+  });
+
+  it('reports unterminated strings', () => {
+    assert.equal(parseError("export const menuData = { title: 'Home };").line, 1);
+  });
+
+  it('reports a file without menuData', () => {
+    assert.match(parseError('export const other = {};').message, /export const menuData/);
+  });
+});
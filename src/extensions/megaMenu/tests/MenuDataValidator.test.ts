@@ -0,0 +1,99 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuDataValidator } from '../services/MenuDataValidator';
+import { getFallbackMenuData } from '../services/FallbackMenuData';
+
+function getMenuWithInvalidLink(): any {
+  return {
+    navigation: [
+      {
+        title: 'Departments',
+        href: '',
+        megaMenu: {
+          columns: [
+            {
+              title: 'Teams',
+              items: [
+                { title: 'HR', href: '/sites/hr' },
+                { title: 'Finance', href: 42 }
+              ]
+            }
+          ]
+        }
+      }
+    ]
+  };
+}
+
+describe('MenuDataValidator', () => {
+  it('accepts the fallback menu unchanged', () => {
+    const result = new MenuDataValidator().validate(getFallbackMenuData());
+    assert.deepEqual(result.errors, []);
+    // Missing optional values come back as undefined properties, which JSON leaves out again
+    assert.deepEqual(JSON.parse(JSON.stringify(result.data)), getFallbackMenuData());
+  });
+
+  it('rejects values that are not menus', () => {
+    assert.deepEqual(new MenuDataValidator().validate([]).errors, [{ path: '$', message: 'expected object, got array' }]);
+    assert.deepEqual(new MenuDataValidator().validate({}).errors, [{ path: 'navigation', message: 'expected array, got undefined' }]);
+  });
+
+  it('returns no data in strict mode when any entry is invalid', () => {
+    const result = new MenuDataValidator().validate(getMenuWithInvalidLink());
+    assert.isNull(result.data);
+    assert.deepEqual(result.errors, [
+      { path: 'navigation[0].megaMenu.columns[0].items[1].href', message: 'expected string, got number' }
+    ]);
+  });
+
+  it('drops only the invalid entries in lenient mode', () => {
+    const result = new MenuDataValidator(true).validate(getMenuWithInvalidLink());
+    assert.lengthOf(result.errors, 1);
+    assert.deepEqual(result.data.navigation[0].megaMenu.columns[0].items, [{ title: 'HR', href: '/sites/hr' }]);
+  });
+
+  it('reports every problem of an entry', () => {
+    const result = new MenuDataValidator().validate({
+      navigation: [{ title: {}, href: '/', audiences: 'HR', match: 'regex' }]
+    });
+    assert.deepEqual(result.errors.map(error => error.path), [
+      'navigation[0].title',
+      'navigation[0].audiences',
+      'navigation[0].match'
+    ]);
+  });
+
+  it('accepts translated titles and rejects translations that are not strings', () => {
+    const valid = new MenuDataValidator().validate({ navigation: [{ title: { 'default': 'Home', 'fr-fr': 'Accueil' }, href: '/' }] });
+    assert.deepEqual(valid.errors, []);
+
+    const invalid = new MenuDataValidator().validate({ navigation: [{ title: { 'default': 'Home', 'fr-fr': 1 }, href: '/' }] });
+    assert.deepEqual(invalid.errors.map(error => error.path), ['navigation[0].title.fr-fr']);
+  });
+
+  it('accepts featured columns without links', () => {
+    const result = new MenuDataValidator().validate({
+      navigation: [{ title: 'News', href: '', megaMenu: { columns: [{ title: 'Spotlight', variant: 'featured', headline: 'Town hall' }] } }]
+    });
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.data.navigation[0].megaMenu.columns[0].items, []);
+  });
+
+  it('checks schedule dates and their order', () => {
+    const validate = (entry: any) => new MenuDataValidator().validate({ navigation: [{ title: 'Sale', href: '/', ...entry }] }).errors;
+
+    assert.deepEqual(validate({ showFrom: '2025-06-01T08:00:00-05:00', showUntil: '2025-06-02T08:00Z' }), []);
+    assert.deepEqual(validate({ showFrom: '2025-06-01T08:00:00' }).map(error => error.path), ['navigation[0].showFrom']);
+    assert.deepEqual(validate({ showFrom: '2025-06-02T08:00Z', showUntil: '2025-06-01T08:00Z' }), [
+      { path: 'navigation[0].showUntil', message: 'expected a time after showFrom, got string' }
+    ]);
+  });
+
+  it('formats errors one per line', () => {
+    assert.equal(
+      MenuDataValidator.formatErrors([{ path: 'navigation', message: 'expected array, got null' }, { path: '$', message: 'expected object, got string' }]),
+      'navigation: expected array, got null\n$: expected object, got string'
+    );
+  });
+});
@@ -0,0 +1,90 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuData } from '../services/MegaMenuService';
+import { diffMenuData, IMenuDiffChange } from '../services/MenuDiff';
+
+function getMenuData(): MenuData {
+  return {
+    navigation: [
+      {
+        title: 'HR',
+        href: '',
+        megaMenu: {
+          columns: [
+            {
+              title: 'Benefits',
+              items: [
+                { title: 'Health', href: '/sites/hr/health' },
+                { title: 'Pension', href: '/sites/hr/pension' }
+              ]
+            },
+            {
+              title: 'Forms',
+              items: [
+                { title: 'Leave', href: '', children: [{ title: 'Vacation', href: '/sites/hr/vacation' }] }
+              ]
+            }
+          ]
+        }
+      },
+      { title: 'News', href: '/news' }
+    ]
+  };
+}
+
+function summarize(changes: IMenuDiffChange[]): string[] {
+  return changes.map(change => `${change.type} ${change.kind} ${change.path.concat(change.title).join(' > ')}`);
+}
+
+describe('diffMenuData', () => {
+  it('finds no changes between equal menus or when entries are reordered', () => {
+    assert.deepEqual(diffMenuData(getMenuData(), getMenuData(), 'en-us'), []);
+
+    const reordered = getMenuData();
+    reordered.navigation.reverse();
+    reordered.navigation[1].megaMenu.columns[0].items.reverse();
+    assert.deepEqual(diffMenuData(getMenuData(), reordered, 'en-us'), []);
+  });
+
+  it('reports added and removed entries without their contents', () => {
+    const after = getMenuData();
+    after.navigation[0].megaMenu.columns.splice(1, 1);
+    after.navigation.push({ title: 'IT', href: '', megaMenu: { columns: [{ title: 'Help', items: [{ title: 'Tickets', href: '/it' }] }] } });
+
+    assert.deepEqual(summarize(diffMenuData(getMenuData(), after, 'en-us')), [
+      'added navigation IT',
+      'removed column HR > Forms'
+    ]);
+  });
+
+  it('reports links that went to another column as moved', () => {
+    const after = getMenuData();
+    const pension = after.navigation[0].megaMenu.columns[0].items.pop();
+    after.navigation[0].megaMenu.columns[1].items.push(pension);
+
+    const changes = diffMenuData(getMenuData(), after, 'en-us');
+    assert.deepEqual(summarize(changes), ['moved link HR > Forms > Pension']);
+    assert.deepEqual(changes[0].oldPath, ['HR', 'Benefits']);
+  });
+
+  it('recognizes renamed links by their URL and renamed columns by their position', () => {
+    const after = getMenuData();
+    after.navigation[0].megaMenu.columns[0].title = 'Perks';
+    after.navigation[0].megaMenu.columns[0].items[0].title = 'Health insurance';
+
+    const changes = diffMenuData(getMenuData(), after, 'en-us');
+    assert.deepEqual(summarize(changes), ['renamed column HR > Perks', 'renamed link HR > Perks > Health insurance']);
+    assert.deepEqual(changes.map(change => change.oldTitle), ['Benefits', 'Health']);
+  });
+
+  it('shows titles in the given culture', () => {
+    const before = getMenuData();
+    const after = getMenuData();
+    after.navigation[1].title = { 'default': 'News', 'fr-fr': 'Actualités' };
+
+    const changes = diffMenuData(before, after, 'fr-FR');
+    assert.deepEqual(summarize(changes), ['renamed navigation Actualités']);
+    assert.equal(changes[0].oldTitle, 'News');
+  });
+});
@@ -0,0 +1,60 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuData } from '../services/MegaMenuService';
+import { MenuFileFormat, parseMenuFile } from '../services/MenuFileFormats';
+import { serializeMenuFile } from '../services/MenuFileSerializer';
+import { getFallbackMenuData } from '../services/FallbackMenuData';
+
+const FORMATS: MenuFileFormat[] = ['typescript', 'json', 'yaml'];
+
+/** Titles that YAML or TypeScript would read as something else if they were written unquoted */
+const TRICKY_STRINGS: string[] = [
+  'true', 'false', 'yes', 'no', 'on', 'null', '~', '', ' ', '0x10', '0o17', '1e3', '.5', '-1', '+1', '.inf', '.NaN',
+  '2024-01-31', '2024-01-31T08:00:00Z', '12:30', "Dean's List", 'It\'s "quoted"', '`template ${literal}`',
+  '# not a comment', 'key: value', '- item', '? question', '&anchor', '*alias', '!tag', '%directive', '@at', '|', '>',
+  ' leading and trailing ', 'line\nbreak', 'tab\there', 'back\\slash', '/* comment */', 'ÜTF-8 — ünïcödé 😀',
+  'line\u2028separator', 'lone \ud800 surrogate', 'https://example.com/?a=1&b=2#hash'
+];
+
+function getTrickyMenuData(): MenuData {
+  return {
+    navigation: [
+      {
+        title: 'Tricky',
+        href: '',
+        audiences: TRICKY_STRINGS,
+        megaMenu: {
+          columns: [
+            {
+              title: { 'default': 'Dean\'s List', 'es-es': 'Lista del decano' },
+              items: TRICKY_STRINGS.map((text, index) => ({ title: text, href: `/sites/tricky${index}`, description: text, badge: text }))
+            }
+          ]
+        }
+      }
+    ],
+    theme: { primaryColor: '#b91c1c', headerHeight: '0x10', fontFamily: "'Segoe UI', sans-serif" }
+  };
+}
+
+describe('MenuFileSerializer', () => {
+  FORMATS.forEach(format => {
+    describe(format, () => {
+      [
+        { name: 'the fallback menu', getData: getFallbackMenuData },
+        { name: 'tricky strings', getData: getTrickyMenuData }
+      ].forEach(({ name, getData }) => {
+        it(`reads back ${name} unchanged`, () => {
+          const data = getData();
+          assert.deepEqual(parseMenuFile(serializeMenuFile(data, format), format), data);
+        });
+
+        it(`writes ${name} again as the same file`, () => {
+          const content = serializeMenuFile(getData(), format);
+          assert.equal(serializeMenuFile(parseMenuFile(content, format), format), content);
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuData, MenuItem } from '../services/MegaMenuService';
+import { MenuLinter, IMenuLintIssue, IMenuLinterOptions } from '../services/MenuLinter';
+
+function menuWithLinks(items: MenuItem[]): MenuData {
+  return { navigation: [{ title: 'Resources', href: '', megaMenu: { columns: [{ title: 'Links', items }] } }] };
+}
+
+function lintLinks(items: MenuItem[], options?: IMenuLinterOptions): IMenuLintIssue[] {
+  return new MenuLinter(options).lint(menuWithLinks(items));
+}
+
+function rules(issues: IMenuLintIssue[]): string[] {
+  return issues.map(issue => `${issue.rule} ${issue.path}`);
+}
+
+const LINK_PATH = 'navigation[0].megaMenu.columns[0].items';
+
+describe('MenuLinter', () => {
+  it('finds nothing wrong with a clean menu', () => {
+    assert.deepEqual(lintLinks([
+      { title: 'Benefits', href: '/sites/hr/benefits' },
+      { title: 'Contoso', href: 'https://www.contoso.com/about?tab=1#team' },
+      { title: 'Email HR', href: 'mailto:hr@contoso.com' },
+      { title: 'Forms', href: '', children: [{ title: 'Leave', href: '/sites/hr/leave' }] }
+    ]), []);
+  });
+
+  it('reports empty titles and links without a URL', () => {
+    assert.deepEqual(rules(lintLinks([
+      { title: ' ', href: '/a' },
+      { title: { 'default': 'Translated', 'fr-fr': '' }, href: '/b' },
+      { title: 'Nowhere', href: '' }
+    ])), [
+      `empty-title ${LINK_PATH}[0].title`,
+      `empty-title ${LINK_PATH}[1].title`,
+      `malformed-url ${LINK_PATH}[2].href`
+    ]);
+  });
+
+  it('reports malformed URLs', () => {
+    const issues = lintLinks([
+      { title: 'A', href: ' /padded' },
+      { title: 'B', href: '/100%' },
+      { title: 'C', href: 'www.contoso.com' },
+      { title: 'D', href: 'ftp://files.contoso.com' },
+      { title: 'E', href: 'https://localhost/x' }
+    ]);
+    assert.deepEqual(issues.map(issue => issue.rule), ['malformed-url', 'malformed-url', 'malformed-url', 'malformed-url', 'malformed-url']);
+    assert.isTrue(issues.every(issue => issue.severity === 'error'));
+  });
+
+  it('warns about http, wrapped and redirect links', () => {
+    const issues = lintLinks([
+      { title: 'A', href: 'http://www.contoso.com' },
+      { title: 'B', href: 'https://nam02.safelinks.protection.outlook.com/?url=https%3A%2F%2Fcontoso.com' },
+      { title: 'C', href: 'https://www.google.com/url?q=https://contoso.com' }
+    ]);
+    assert.deepEqual(rules(issues), [
+      `insecure-url ${LINK_PATH}[0].href`,
+      `wrapped-url ${LINK_PATH}[1].href`,
+      `wrapped-url ${LINK_PATH}[2].href`
+    ]);
+    assert.isTrue(issues.every(issue => issue.severity === 'warning'));
+  });
+
+  it('reports duplicate titles and URLs within a top-level menu only', () => {
+    const data: MenuData = {
+      navigation: [
+        {
+          title: 'HR',
+          href: '',
+          megaMenu: {
+            columns: [
+              { title: 'One', items: [{ title: 'Benefits', href: '/sites/hr/Benefits/' }] },
+              { title: 'Two', items: [{ title: ' benefits ', href: '/sites/hr/benefits#top' }] }
+            ]
+          }
+        },
+        { title: 'Benefits', href: '/sites/hr/benefits' }
+      ]
+    };
+    assert.deepEqual(rules(new MenuLinter().lint(data)), [
+      'duplicate-title navigation[0].megaMenu.columns[1].items[0].title',
+      'duplicate-href navigation[0].megaMenu.columns[1].items[0].href'
+    ]);
+  });
+
+  it('warns about deactivated entries', () => {
+    assert.deepEqual(rules(lintLinks([
+      { title: 'Old portal (Deactivated)', href: '/old' },
+      { title: 'Older portal', href: '/older', badge: 'deactivated' }
+    ])), [`deactivated ${LINK_PATH}[0]`, `deactivated ${LINK_PATH}[1]`]);
+  });
+
+  it('warns about columns with more links than the maximum', () => {
+    const items = [1, 2, 3].map(index => ({ title: `Link ${index}`, href: `/link${index}` }));
+    assert.deepEqual(rules(lintLinks(items, { maxColumnItems: 2 })), ['long-column navigation[0].megaMenu.columns[0]']);
+    assert.deepEqual(lintLinks(items, { maxColumnItems: 3 }), []);
+  });
+
+  it('warns about sites missing from the known sites', () => {
+    const knownSites = ['https://contoso.sharepoint.com/sites/HR', '/teams/finance'];
+    assert.deepEqual(rules(lintLinks([
+      { title: 'A', href: '/sites/hr/benefits' },
+      { title: 'B', href: 'https://contoso.sharepoint.com/teams/Finance/budget' },
+      { title: 'C', href: '/sites/legal' },
+      { title: 'D', href: '/_layouts/15/viewlsts.aspx' }
+    ], { knownSites })), [`unknown-site ${LINK_PATH}[2].href`]);
+  });
+
+  it('formats issues one per line', () => {
+    assert.equal(
+      MenuLinter.formatIssues([{ rule: 'insecure-url', severity: 'warning', path: 'navigation[0].href', message: '"http://a.com" does not use https' }]),
+      'WARNING navigation[0].href: "http://a.com" does not use https [insecure-url]'
+    );
+  });
+});
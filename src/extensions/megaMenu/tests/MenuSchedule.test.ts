@@ -0,0 +1,92 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuData } from '../services/MegaMenuService';
+import { parseScheduleDate, isScheduledVisible, filterScheduledMenuData, getNextVisibilityChange } from '../services/MenuSchedule';
+
+const JUNE_1 = Date.UTC(2025, 5, 1, 13, 0);
+const JUNE_2 = Date.UTC(2025, 5, 2, 13, 0);
+
+describe('MenuSchedule', () => {
+  describe('parseScheduleDate', () => {
+    it('reads dates and times with a time zone', () => {
+      assert.equal(parseScheduleDate('2025-06-01T13:00Z'), JUNE_1);
+      assert.equal(parseScheduleDate('2025-06-01T08:00:00-05:00'), JUNE_1);
+      assert.equal(parseScheduleDate('2025-06-01T14:30:00.5+0130'), JUNE_1 + 500);
+      assert.equal(parseScheduleDate('2025-06-01t13:00z'), JUNE_1);
+    });
+
+    it('rejects dates without a time zone and dates that do not exist', () => {
+      ['2025-06-01', '2025-06-01T13:00', '2025-02-30T00:00Z', '2025-06-01T24:00Z', 'June 1, 2025', '']
+        .forEach(value => assert.isNaN(parseScheduleDate(value), value));
+    });
+  });
+
+  describe('isScheduledVisible', () => {
+    const entry = { showFrom: '2025-06-01T13:00Z', showUntil: '2025-06-02T13:00Z' };
+
+    it('shows entries from showFrom until just before showUntil', () => {
+      assert.isFalse(isScheduledVisible(entry, JUNE_1 - 1));
+      assert.isTrue(isScheduledVisible(entry, JUNE_1));
+      assert.isTrue(isScheduledVisible(entry, JUNE_2 - 1));
+      assert.isFalse(isScheduledVisible(entry, JUNE_2));
+    });
+
+    it('shows entries without a schedule or with an open end', () => {
+      assert.isTrue(isScheduledVisible({}, JUNE_1));
+      assert.isTrue(isScheduledVisible({ showFrom: entry.showFrom }, JUNE_2 * 2));
+      assert.isTrue(isScheduledVisible({ showUntil: entry.showUntil }, 0));
+    });
+  });
+
+  describe('filterScheduledMenuData', () => {
+    const data: MenuData = {
+      navigation: [
+        { title: 'Sale', href: '/sale', showUntil: '2025-06-01T13:00Z' },
+        {
+          title: 'Events',
+          href: '/events',
+          megaMenu: {
+            columns: [
+              { title: 'Upcoming', items: [{ title: 'Town hall', href: '/town-hall', showFrom: '2025-06-02T13:00Z' }] }
+            ]
+          }
+        }
+      ]
+    };
+
+    it('hides entries outside their schedule, and menus left empty by them', () => {
+      assert.deepEqual(filterScheduledMenuData(data, JUNE_1), {
+        navigation: [{ title: 'Events', href: '/events', megaMenu: undefined }]
+      });
+    });
+
+    it('keeps everything shown at the given time', () => {
+      assert.deepEqual(filterScheduledMenuData(data, JUNE_2).navigation[0].megaMenu, data.navigation[1].megaMenu);
+    });
+  });
+
+  describe('getNextVisibilityChange', () => {
+    it('returns the next time an entry appears or disappears', () => {
+      const data: MenuData = {
+        navigation: [
+          { title: 'Sale', href: '/sale', showFrom: '2025-06-01T13:00Z', showUntil: '2025-06-03T13:00Z' },
+          {
+            title: 'Events',
+            href: '',
+            megaMenu: {
+              columns: [
+                { title: 'Upcoming', items: [{ title: 'Agenda', href: '', children: [{ title: 'Day 2', href: '/day2', showFrom: '2025-06-02T13:00Z' }] }] }
+              ]
+            }
+          }
+        ]
+      };
+
+      assert.equal(getNextVisibilityChange(data, 0), JUNE_1);
+      assert.equal(getNextVisibilityChange(data, JUNE_1), JUNE_2);
+      assert.equal(getNextVisibilityChange(data, JUNE_2), Date.UTC(2025, 5, 3, 13, 0));
+      assert.isNull(getNextVisibilityChange(data, Date.UTC(2025, 5, 3, 13, 0)));
+    });
+  });
+});
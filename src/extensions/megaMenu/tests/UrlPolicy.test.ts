@@ -0,0 +1,107 @@
+/// <reference types="mocha" />
+
+import { assert } from 'chai';
+import { MenuData } from '../services/MegaMenuService';
+import { UrlPolicy, parseUrlPolicyList } from '../services/UrlPolicy';
+
+const SITE_URL = 'https://contoso.sharepoint.com/sites/intranet';
+
+describe('UrlPolicy', () => {
+  describe('with the default options', () => {
+    const policy = new UrlPolicy(SITE_URL);
+
+    it('allows relative URLs and the default schemes on any host', () => {
+      ['', '/sites/hr', 'page.aspx', '#top', '?q=1', 'https://example.com', 'HTTP://example.com', 'mailto:hr@contoso.com', 'tel:+15551234']
+        .forEach(url => assert.isNull(policy.getViolation(url), url));
+    });
+
+    it('rejects other schemes, however they are disguised', () => {
+      ['javascript:alert(1)', ' JavaScript:alert(1)', 'java\tscript:alert(1)', '\u0001javascript:alert(1)', 'data:text/html,<b>', 'vbscript:msgbox']
+        .forEach(url => assert.isFalse(policy.isAllowed(url), url));
+      assert.equal(policy.getViolation('JAVASCRIPT:void(0)'), 'scheme "javascript:" is not allowed');
+    });
+
+    it('rejects values that are not strings', () => {
+      assert.equal(policy.getViolation(42 as any), 'expected string');
+    });
+  });
+
+  describe('with allowed hosts', () => {
+    const policy = new UrlPolicy(SITE_URL, { allowedHosts: ['*.contoso.com', ' Fabrikam.com '] });
+
+    it('allows the listed hosts, their subdomains for wildcards, and the SharePoint host', () => {
+      ['https://www.contoso.com/', 'https://a.b.contoso.com', 'https://fabrikam.com:8443/x', 'https://user@fabrikam.com.', 'https://contoso.sharepoint.com/sites/hr', '/sites/hr']
+        .forEach(url => assert.isTrue(policy.isAllowed(url), url));
+    });
+
+    it('rejects other hosts, including protocol-relative and backslashed URLs', () => {
+      assert.equal(policy.getViolation('https://evil.com/?contoso.com'), 'host "evil.com" is not allowed');
+      ['https://contoso.com', 'https://www.fabrikam.com', '//evil.com', '/\\evil.com', 'https://fabrikam.com@evil.com', 'https://evilcontoso.com']
+        .forEach(url => assert.isFalse(policy.isAllowed(url), url));
+    });
+
+    it('does not check the hosts of other schemes', () => {
+      assert.isTrue(policy.isAllowed('mailto:someone@evil.com'));
+    });
+  });
+
+  it('uses only the allowed schemes when they are given', () => {
+    const policy = new UrlPolicy(SITE_URL, { allowedSchemes: ['HTTPS:'] });
+    assert.isTrue(policy.isAllowed('https://example.com'));
+    assert.isFalse(policy.isAllowed('http://example.com'));
+    assert.isFalse(policy.isAllowed('mailto:hr@contoso.com'));
+  });
+
+  describe('filterMenuData', () => {
+    it('drops rejected entries and column images and buttons, and reports their paths', () => {
+      const data: MenuData = {
+        navigation: [
+          { title: 'Bad', href: 'javascript:alert(1)' },
+          {
+            title: 'Good',
+            href: '',
+            megaMenu: {
+              columns: [
+                {
+                  title: 'Links',
+                  image: 'data:image/png;base64,AAAA',
+                  cta: { text: 'Go', href: 'vbscript:go' },
+                  items: [
+                    { title: 'Kept', href: '/kept', children: [{ title: 'Dropped', href: 'javascript:void(0)' }] },
+                    { title: 'Dropped', href: 'javascript:void(0)' }
+                  ]
+                }
+              ]
+            }
+          }
+        ]
+      };
+
+      const result = new UrlPolicy(SITE_URL).filterMenuData(data);
+      assert.deepEqual(result.data, {
+        navigation: [
+          {
+            title: 'Good',
+            href: '',
+            megaMenu: { columns: [{ title: 'Links', items: [{ title: 'Kept', href: '/kept', children: [] }] }] }
+          }
+        ]
+      });
+      assert.deepEqual(result.rejected.map(rejection => rejection.path), [
+        'navigation[0].href',
+        'navigation[1].megaMenu.columns[0].items[0].children[0].href',
+        'navigation[1].megaMenu.columns[0].items[1].href',
+        'navigation[1].megaMenu.columns[0].image',
+        'navigation[1].megaMenu.columns[0].cta.href'
+      ]);
+    });
+  });
+
+  describe('parseUrlPolicyList', () => {
+    it('reads arrays and comma-separated strings, skipping empty entries', () => {
+      assert.deepEqual(parseUrlPolicyList(' a.com, ,*.b.com,'), ['a.com', '*.b.com']);
+      assert.deepEqual(parseUrlPolicyList([' a.com ', '']), ['a.com']);
+      assert.deepEqual(parseUrlPolicyList(undefined), []);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Lints a menu file from the command line.
+ *
+ *   npm run lint-menu -- <menu file> [--json] [--sites <file>] [--max-column-items <n>]
+ *
+ * The menu file may be .ts, .json, .yaml or .yml. The sites file lists known sites, one URL or
+ * server-relative path per line (lines starting with # are ignored), or as a JSON array.
+ * Exits with 1 when the file cannot be parsed or has errors, and with 2 on invalid arguments.
+ */
+import * as fs from 'fs';
+import { getMenuFileFormat, parseMenuFile } from '../src/extensions/megaMenu/services/MenuFileFormats';
+import { MenuDataValidator, IMenuValidationError } from '../src/extensions/megaMenu/services/MenuDataValidator';
+import { MenuLinter, IMenuLintIssue } from '../src/extensions/megaMenu/services/MenuLinter';
+
+interface ILintMenuArguments {
+  file: string;
+  json: boolean;
+  sitesFile?: string;
+  maxColumnItems?: number;
+}
+
+interface ILintMenuReport {
+  file: string;
+  /** Set when the file could not be parsed */
+  parseError?: string;
+  validationErrors: IMenuValidationError[];
+  issues: IMenuLintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+function parseArguments(args: string[]): ILintMenuArguments {
+  const result: ILintMenuArguments = { file: '', json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--json') {
+      result.json = true;
+    } else if (arg === '--sites') {
+      result.sitesFile = args[++i];
+    } else if (arg === '--max-column-items') {
+      result.maxColumnItems = parseInt(args[++i], 10);
+    } else if (arg.charAt(0) === '-' || result.file) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    } else {
+      result.file = arg;
+    }
+  }
+
+  if (!result.file) {
+    throw new Error('No menu file given');
+  }
+  if (result.maxColumnItems !== undefined && !(result.maxColumnItems > 0)) {
+    throw new Error('--max-column-items expects a positive number');
+  }
+  return result;
+}
+
+function readKnownSites(sitesFile: string): string[] {
+  const content = fs.readFileSync(sitesFile, 'utf8');
+  if (content.trim().charAt(0) === '[') {
+    return JSON.parse(content);
+  }
+  return content.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => !!line && line.charAt(0) !== '#');
+}
+
+function lintMenuFile(args: ILintMenuArguments): ILintMenuReport {
+  const report: ILintMenuReport = { file: args.file, validationErrors: [], issues: [], errorCount: 0, warningCount: 0 };
+
+  let value: any;
+  try {
+    value = parseMenuFile(fs.readFileSync(args.file, 'utf8'), getMenuFileFormat(args.file));
+  } catch (error) {
+    report.parseError = error.message;
+    report.errorCount = 1;
+    return report;
+  }
+
+  // Lenient validation keeps the valid part of the menu, so it can still be linted
+  const validation = new MenuDataValidator(true).validate(value);
+  report.validationErrors = validation.errors;
+  if (validation.data) {
+    report.issues = new MenuLinter({
+      maxColumnItems: args.maxColumnItems,
+      knownSites: args.sitesFile ? readKnownSites(args.sitesFile) : undefined
+    }).lint(validation.data);
+  }
+
+  report.errorCount = report.validationErrors.length + report.issues.filter(issue => issue.severity === 'error').length;
+  report.warningCount = report.issues.filter(issue => issue.severity === 'warning').length;
+  return report;
+}
+
+function formatReport(report: ILintMenuReport): string {
+  const lines: string[] = [report.file];
+
+  if (report.parseError) {
+    lines.push(`ERROR ${report.parseError}`);
+  }
+  report.validationErrors.forEach(error => lines.push(`ERROR ${error.path}: ${error.message} [invalid]`));
+  if (report.issues.length > 0) {
+    lines.push(MenuLinter.formatIssues(report.issues));
+  }
+
+  lines.push(`${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+  return lines.join('\n');
+}
+
+function main(): void {
+  let args: ILintMenuArguments;
+  try {
+    args = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error(error.message);
+    console.error('Usage: lint-menu <menu file> [--json] [--sites <file>] [--max-column-items <n>]');
+    process.exit(2);
+    return;
+  }
+
+  const report = lintMenuFile(args);
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatReport(report));
+  process.exit(report.errorCount > 0 ? 1 : 0);
+}
+
+main();